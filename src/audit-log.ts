@@ -0,0 +1,260 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Audit log recording the history of changes to documents.
+ */
+
+// Internal dependencies.
+import { collate } from "./collate";
+import { ConflictError, NotFoundError, normalizeError } from "./errors";
+import { ChangesResponseChange } from "./events";
+import { HeartDB } from "./heartdb";
+import { getPreviousRevision, getRevGeneration } from "./revisions";
+import { AuditDiff, AuditEntry, Document, WriteOperation } from "./types";
+
+/**
+ * Suffix appended to the HeartDB's database name to name the default audit
+ * database.
+ */
+const AUDIT_DATABASE_NAME_SUFFIX = "-audit";
+
+/**
+ * Options for configuring an AuditLog.
+ */
+export interface AuditLogOptions {
+  /**
+   * Database in which to store audit entries. Defaults to a database named
+   * after the HeartDB's database with an "-audit" suffix, opened with the same
+   * adapter.
+   */
+  database?: PouchDB.Database<AuditEntry>;
+
+  /**
+   * Function returning the id of the user (or other actor) making a change, to
+   * be recorded with it.
+   */
+  actor?: () => string | undefined;
+
+  /**
+   * Whether to record the fields changed by each change, compared with the
+   * previous revision. Defaults to false.
+   */
+  diff?: boolean;
+}
+
+/**
+ * Get the prefix shared by the ids of all audit entries for a document. Since
+ * the document id is URI-encoded, it can't contain the "/" separator, so no
+ * document's prefix is a prefix of another's.
+ * @param docId Id of the audited document.
+ * @returns Prefix of audit entry ids.
+ */
+function getEntryIdPrefix(docId: PouchDB.Core.DocumentId): string {
+  return `${encodeURIComponent(docId)}/`;
+}
+
+/**
+ * Compare the top-level fields of two revisions of a document.
+ * @param before Previous revision, or undefined if there was none.
+ * @param after Current revision.
+ * @returns The fields which differ, with their previous and current values.
+ */
+function diffDocs(before: Document | undefined, after: Document): AuditDiff {
+  const beforeFields = (before ?? {}) as Record<string, unknown>;
+  const afterFields = after as Record<string, unknown>;
+  const diff: AuditDiff = {};
+  const keys = new Set([
+    ...Object.keys(beforeFields),
+    ...Object.keys(afterFields),
+  ]);
+  for (const key of keys) {
+    if (key === "_rev" || key === "_revisions" || key === "_conflicts") {
+      continue;
+    }
+    const beforeValue = beforeFields[key];
+    const afterValue = afterFields[key];
+    if (collate(beforeValue, afterValue) !== 0) {
+      diff[key] = { before: beforeValue, after: afterValue };
+    }
+  }
+  return diff;
+}
+
+/**
+ * An AuditLog records an entry for each change written through a HeartDB,
+ * noting when it was made, by which context (and optionally which actor), and
+ * optionally which fields it changed. Entries are kept in a separate database,
+ * so they don't appear in queries, and can be read back as a per-document
+ * timeline.
+ *
+ * Only writes made through the HeartDB are recorded, by the context making
+ * them. Changes pulled by replication are recorded by the context which wrote
+ * them, if it keeps an audit log.
+ *
+ * AuditLogs are usually created by passing the `audit` option to HeartDB, and
+ * read with its `history()` method.
+ * @template DocType Type of document in the HeartDB.
+ */
+export class AuditLog<DocType extends Document = Document> {
+  /**
+   * Database in which audit entries are stored.
+   */
+  readonly database: PouchDB.Database<AuditEntry>;
+
+  /**
+   * Whether the audit database was opened by this AuditLog, and so should be
+   * closed with it.
+   */
+  private readonly ownsDatabase: boolean;
+
+  /**
+   * Function to remove the middleware which records changes.
+   */
+  private readonly removeMiddleware: () => void;
+
+  /**
+   * @param heartDb HeartDB instance whose writes to record.
+   * @param options Optional configuration.
+   */
+  constructor(
+    readonly heartDb: HeartDB<DocType>,
+    readonly options: AuditLogOptions = {},
+  ) {
+    if (options.database) {
+      this.database = options.database;
+      this.ownsDatabase = false;
+    } else {
+      // Open a sibling database using the same PouchDB class and adapter.
+      const { pouchDb } = heartDb;
+      const PouchDBConstructor = pouchDb.constructor as PouchDB.Static;
+      const adapter = "adapter" in pouchDb ? pouchDb.adapter : undefined;
+      this.database = new PouchDBConstructor<AuditEntry>(
+        `${pouchDb.name}${AUDIT_DATABASE_NAME_SUFFIX}`,
+        typeof adapter === "string" ? { adapter } : {},
+      );
+      this.ownsDatabase = true;
+    }
+
+    this.removeMiddleware = heartDb.use({
+      afterWrite: (change, { operation }) => this.record(change, operation),
+    });
+  }
+
+  /**
+   * Stop recording changes, and close the audit database if it was opened by
+   * this AuditLog.
+   */
+  close() {
+    this.removeMiddleware();
+    if (this.ownsDatabase) {
+      // Another instance in this context may have opened (and closed) the same
+      // database, in which case it's already closed.
+      this.database.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Record an entry for a settled change. Recording the same revision twice
+   * has no effect.
+   * @param change Settled change to record.
+   * @param operation Method through which the document was written.
+   */
+  async record(
+    change: ChangesResponseChange<DocType>,
+    operation: WriteOperation,
+  ): Promise<void> {
+    const { id: docId, doc } = change;
+    const entry: AuditEntry & PouchDB.Core.IdMeta = {
+      _id: `${getEntryIdPrefix(docId)}${doc._rev}`,
+      docId,
+      rev: doc._rev,
+      timestamp: Date.now(),
+      contextId: this.heartDb.instanceId,
+      operation,
+      deleted: !!change.deleted,
+    };
+
+    const actor = this.options.actor?.call(null);
+    if (actor !== undefined) {
+      entry.actor = actor;
+    }
+
+    if (this.options.diff) {
+      const diff = await this.diffWithPrevious(doc);
+      if (diff) {
+        entry.diff = diff;
+      }
+    }
+
+    try {
+      await this.database.put(entry);
+    } catch (error) {
+      const normalizedError = normalizeError(error);
+      if (!(normalizedError instanceof ConflictError)) {
+        throw normalizedError;
+      }
+    }
+  }
+
+  /**
+   * Compare a revision of a document with the revision before it.
+   * @param doc Revision of the document.
+   * @returns The changed fields, or undefined if the previous revision is no
+   * longer available (e.g. after compaction).
+   */
+  private async diffWithPrevious(
+    doc: DocType & PouchDB.Core.IdMeta & PouchDB.Core.RevisionIdMeta,
+  ): Promise<AuditDiff | undefined> {
+    try {
+      const previousDoc = await getPreviousRevision(
+        this.heartDb.pouchDb,
+        doc._id,
+        doc._rev,
+      );
+      return diffDocs(previousDoc, doc);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the recorded timeline of changes to a document.
+   * @param docId Id of the document.
+   * @returns Promise that resolves with the document's audit entries, oldest
+   * first.
+   */
+  async history(docId: PouchDB.Core.DocumentId): Promise<AuditEntry[]> {
+    const prefix = getEntryIdPrefix(docId);
+    const response = await this.database
+      .allDocs({
+        include_docs: true,
+        startkey: prefix,
+        endkey: `${prefix}\uffff`,
+      })
+      .catch((error) => {
+        throw normalizeError(error);
+      });
+
+    const entries: AuditEntry[] = [];
+    for (const { doc } of response.rows) {
+      if (doc) {
+        // Strip the audit database's own metadata.
+        const entry: AuditEntry & Document = { ...doc };
+        delete entry._id;
+        delete entry._rev;
+        entries.push(entry);
+      }
+    }
+
+    return entries.sort(
+      (a, b) =>
+        getRevGeneration(a.rev) - getRevGeneration(b.rev) ||
+        a.timestamp - b.timestamp,
+    );
+  }
+}
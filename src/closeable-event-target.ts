@@ -6,6 +6,9 @@
  * @fileoverview CloseableEventTarget class.
  */
 
+// Internal dependencies.
+import { ClosedError } from "./errors";
+
 /**
  * A CloseableEventTarget is an EventTarget that can be closed.
  *
@@ -26,7 +29,7 @@ export class CloseableEventTarget extends EventTarget {
    * @param type Event type.
    * @param callback EventListener callback.
    * @returns Disconnect callback function.
-   * @throws {Error} If the event target is closed.
+   * @throws {ClosedError} If the event target is closed.
    * @throws {Error} If the callback is null.
    * @throws {Error} If the listener is already added.
    * @see https://developer.mozilla.org/en-US/docs/Web/API/EventTarget/addEventListener
@@ -36,7 +39,7 @@ export class CloseableEventTarget extends EventTarget {
     callback: (event: EventType) => void,
   ): () => void {
     if (this.closed) {
-      throw new Error("Event target is closed.");
+      throw new ClosedError();
     }
     let listeners = this.listeners.get(type);
     if (listeners?.has(callback as EventListener)) {
@@ -56,12 +59,12 @@ export class CloseableEventTarget extends EventTarget {
   /**
    * @param type Event type.
    * @param callback Event listener callback function.
-   * @throws {Error} If the event target is closed.
+   * @throws {ClosedError} If the event target is closed.
    * @see https://developer.mozilla.org/en-US/docs/Web/API/EventTarget/removeEventListener
    */
   override removeEventListener(type: string, callback: EventListener): void {
     if (this.closed) {
-      throw new Error("Event target is closed.");
+      throw new ClosedError();
     }
     const listeners = this.listeners.get(type);
     if (!listeners || !listeners.has(callback as EventListener)) {
@@ -0,0 +1,176 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview CouchDB-style collation of values and sorting of documents.
+ */
+
+// Internal dependencies.
+import { Document, Existing } from "./types";
+
+/**
+ * Function which compares two documents for sorting, returning a negative
+ * number if the first sorts before the second, a positive number if after, and
+ * zero if they are equivalent.
+ */
+export type DocComparator<DocType extends Document = Document> = (
+  a: DocType & Existing,
+  b: DocType & Existing,
+) => number;
+
+/**
+ * Rank of a value's type in CouchDB collation order: null, booleans, numbers,
+ * strings, arrays, then objects.
+ * @param value Normalized value to rank.
+ * @returns Collation rank of the value's type.
+ */
+function collationRank(value: unknown): number {
+  if (value === null) {
+    return 1;
+  }
+  switch (typeof value) {
+    case "boolean":
+      return 2;
+    case "number":
+      return 3;
+    case "string":
+      return 4;
+  }
+  return Array.isArray(value) ? 5 : 6;
+}
+
+/**
+ * Normalize a value for collation. As with CouchDB, undefined and non-finite
+ * numbers are treated as null, and dates as their JSON strings.
+ * @param value Value to normalize.
+ * @returns Normalized value.
+ */
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined) {
+    return null;
+  }
+  if (typeof value === "number" && !isFinite(value)) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toJSON();
+  }
+  return value;
+}
+
+/**
+ * Compare two values using the same collation as PouchDB (and, with the
+ * exception of string comparison, CouchDB).
+ * @param a First value.
+ * @param b Second value.
+ * @returns Negative, zero or positive number, as with Array sort comparators.
+ * @see https://docs.couchdb.org/en/stable/ddocs/views/collation.html
+ */
+export function collate(a: unknown, b: unknown): number {
+  if (a === b) {
+    return 0;
+  }
+
+  a = normalizeValue(a);
+  b = normalizeValue(b);
+
+  const rankDifference = collationRank(a) - collationRank(b);
+  if (rankDifference !== 0) {
+    return rankDifference;
+  }
+
+  if (a === null) {
+    return 0;
+  }
+
+  switch (typeof a) {
+    case "boolean":
+      return a === b ? 0 : a ? 1 : -1;
+    case "number":
+      return a - (b as number);
+    case "string":
+      return a === b ? 0 : a > (b as string) ? 1 : -1;
+  }
+
+  if (Array.isArray(a)) {
+    const bArray = b as unknown[];
+    const length = Math.min(a.length, bArray.length);
+    for (let i = 0; i < length; i++) {
+      const result = collate(a[i], bArray[i]);
+      if (result !== 0) {
+        return result;
+      }
+    }
+    return a.length - bArray.length;
+  }
+
+  // Objects compare key by key, then value by value, in insertion order.
+  const aObject = a as Record<string, unknown>;
+  const bObject = b as Record<string, unknown>;
+  const aKeys = Object.keys(aObject).filter(
+    (key) => aObject[key] !== undefined,
+  );
+  const bKeys = Object.keys(bObject).filter(
+    (key) => bObject[key] !== undefined,
+  );
+  const length = Math.min(aKeys.length, bKeys.length);
+  for (let i = 0; i < length; i++) {
+    const keyResult = collate(aKeys[i], bKeys[i]);
+    if (keyResult !== 0) {
+      return keyResult;
+    }
+    const valueResult = collate(aObject[aKeys[i]], bObject[bKeys[i]]);
+    if (valueResult !== 0) {
+      return valueResult;
+    }
+  }
+  return aKeys.length - bKeys.length;
+}
+
+/**
+ * Get the value of a possibly nested field from a document, where nested field
+ * names are separated by dots (e.g. "address.city").
+ * @param doc Document from which to get the value.
+ * @param field Field name or dotted path.
+ * @returns Field value, or undefined if absent.
+ */
+export function getFieldValue(doc: unknown, field: string): unknown {
+  let value = doc;
+  for (const part of field.split(".")) {
+    if (!value || typeof value !== "object") {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+/**
+ * Create a document comparator which follows a Mango query's sort. Documents
+ * which sort equivalently are ordered by _id, so the order is deterministic.
+ * Without a sort, documents are ordered by _id, as with find() results.
+ * @param sort Optional sort from a Mango query.
+ * @returns Comparator function.
+ */
+export function createDocComparator<DocType extends Document = Document>(
+  sort?: PouchDB.Find.FindRequest<DocType>["sort"],
+): DocComparator<DocType> {
+  const fields = (sort ?? []).map((sortField) => {
+    if (typeof sortField === "string") {
+      return { field: sortField, direction: 1 };
+    }
+    const [field] = Object.keys(sortField);
+    return { field, direction: sortField[field] === "desc" ? -1 : 1 };
+  });
+
+  return (a, b) => {
+    for (const { field, direction } of fields) {
+      const result = collate(getFieldValue(a, field), getFieldValue(b, field));
+      if (result !== 0) {
+        return result * direction;
+      }
+    }
+    return collate(a._id, b._id);
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Built-in strategies for resolving conflicting revisions.
+ */
+
+// Internal dependencies.
+import { collate } from "./collate";
+import { ConflictResolver, Document } from "./types";
+
+/**
+ * Fields which belong to a particular revision, and so are never merged.
+ */
+const REVISION_FIELDS = new Set(["_rev", "_conflicts", "_revisions"]);
+
+/**
+ * Get the value of a top-level field of a document.
+ * @param doc Document to read.
+ * @param field Name of the field.
+ * @returns Value of the field, or undefined if it's missing.
+ */
+function getField(doc: Document, field: string): unknown {
+  return (doc as Record<string, unknown>)[field];
+}
+
+/**
+ * Merge the top-level fields of conflicting revisions, as described by
+ * `mergeFields()`.
+ * @param revisions Conflicting revisions, starting with PouchDB's winner.
+ * @param base Common ancestor of the revisions, if available.
+ * @returns The merged fields.
+ */
+function mergeRevisions(
+  revisions: Document[],
+  base: Document | undefined,
+): Record<string, unknown> {
+  const keys = new Set<string>();
+  for (const revision of revisions) {
+    for (const key of Object.keys(revision)) {
+      if (!REVISION_FIELDS.has(key)) {
+        keys.add(key);
+      }
+    }
+  }
+
+  const merged: Record<string, unknown> = {};
+  for (const key of keys) {
+    const source = base
+      ? (revisions.find(
+          (revision) =>
+            collate(getField(revision, key), getField(base, key)) !== 0,
+        ) ?? base)
+      : revisions.find((revision) => getField(revision, key) !== undefined);
+    if (source && getField(source, key) !== undefined) {
+      merged[key] = getField(source, key);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Create a resolver which keeps whichever conflicting revision has the greatest
+ * value of a field, such as an "updatedAt" timestamp. Values are compared as
+ * with CouchDB collation. Ties (including revisions missing the field) go to
+ * PouchDB's winning revision.
+ * @param field Name of the field to compare.
+ * @returns Conflict resolver.
+ */
+export function lastWriterWins<DocType extends Document = Document>(
+  field: string,
+): ConflictResolver<DocType> {
+  return (revisions) => {
+    let latest = revisions[0];
+    for (const revision of revisions.slice(1)) {
+      if (collate(getField(revision, field), getField(latest, field)) > 0) {
+        latest = revision;
+      }
+    }
+    return latest;
+  };
+}
+
+/**
+ * Create a resolver which merges conflicting revisions field by field. Each
+ * top-level field takes the value from a revision which changed it since the
+ * revisions' common ancestor, preferring PouchDB's winning revision if several
+ * did. Without a common ancestor, each field takes the value from the first
+ * revision which has it, starting with the winner.
+ * @returns Conflict resolver.
+ */
+export function mergeFields<
+  DocType extends Document = Document,
+>(): ConflictResolver<DocType> {
+  return (revisions, base) => mergeRevisions(revisions, base) as DocType;
+}
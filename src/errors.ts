@@ -6,6 +6,9 @@
  * @fileoverview Custom Error subclasses.
  */
 
+// Internal dependencies.
+import { ValidationIssue } from "./types";
+
 /**
  * Internal error signifying a bug. Not recoverable.
  */
@@ -15,3 +18,189 @@ export class InternalError extends Error {
     this.name = "InternalError";
   }
 }
+
+/**
+ * Error signifying that a requested document (or other resource) does not
+ * exist. Corresponds to PouchDB's 404 errors.
+ */
+export class NotFoundError extends Error {
+  /**
+   * HTTP-style status code, for parity with PouchDB errors.
+   */
+  readonly status = 404;
+
+  /**
+   * @param message Error message.
+   * @param cause Underlying error, if any.
+   */
+  constructor(
+    message?: string,
+    readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * Error signifying that a write conflicted with the stored revision of a
+ * document. Corresponds to PouchDB's 409 errors.
+ */
+export class ConflictError extends Error {
+  /**
+   * HTTP-style status code, for parity with PouchDB errors.
+   */
+  readonly status = 409;
+
+  /**
+   * @param message Error message.
+   * @param cause Underlying error, if any.
+   */
+  constructor(
+    message?: string,
+    readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+/**
+ * Error signifying that an operation was retried until its retry policy was
+ * exhausted without succeeding due to repeated conflicts.
+ */
+export class RetriesExhaustedError extends ConflictError {
+  /**
+   * @param message Error message.
+   * @param attempts Number of attempts made.
+   * @param cause Error from the final attempt.
+   */
+  constructor(
+    message: string,
+    readonly attempts: number,
+    cause: unknown,
+  ) {
+    super(message, cause);
+    this.name = "RetriesExhaustedError";
+  }
+}
+
+/**
+ * Error signifying that an operation was attempted on a closed object, such as
+ * adding a listener to a closed CloseableEventTarget.
+ */
+export class ClosedError extends Error {
+  constructor(message = "Event target is closed.") {
+    super(message);
+    this.name = "ClosedError";
+  }
+}
+
+/**
+ * Error signifying that a method was called on an object which isn't in a
+ * state to support it, such as setting a LiveQuery's window with no query set.
+ */
+export class InvalidStateError extends Error {
+  /**
+   * @param message Error message.
+   */
+  constructor(message?: string) {
+    super(message);
+    this.name = "InvalidStateError";
+  }
+}
+
+/**
+ * Error signifying an attempt to change a document field which cannot be
+ * changed, such as its `_id` during an update.
+ */
+export class ImmutableFieldError extends Error {
+  /**
+   * @param field Name of the field which cannot be changed.
+   */
+  constructor(readonly field: string) {
+    super(`document ${field} cannot be changed.`);
+    this.name = "ImmutableFieldError";
+  }
+}
+
+/**
+ * Error signifying that a document or request is malformed. Corresponds to
+ * PouchDB's 400 errors.
+ */
+export class ValidationError extends Error {
+  /**
+   * HTTP-style status code, for parity with PouchDB errors.
+   */
+  readonly status = 400;
+
+  /**
+   * @param message Error message.
+   * @param cause Underlying error, if any.
+   * @param issues Reasons a document failed validation, if any.
+   */
+  constructor(
+    message?: string,
+    readonly cause?: unknown,
+    readonly issues: ValidationIssue[] = [],
+  ) {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * Error signifying that a transaction failed to commit. Documents which were
+ * written before the failure are reverted, unless reverting also failed.
+ */
+export class TransactionError extends Error {
+  /**
+   * @param message Error message.
+   * @param cause Error which caused the transaction to fail.
+   * @param rolledBack Whether all written documents were reverted.
+   */
+  constructor(
+    message: string,
+    readonly cause: unknown,
+    readonly rolledBack: boolean,
+  ) {
+    super(message);
+    this.name = "TransactionError";
+  }
+}
+
+/**
+ * Convert a PouchDB error into the corresponding HeartDB error class, based on
+ * its status. Errors which are already HeartDB errors, or which have no
+ * corresponding class, are returned as is.
+ * @param error Error to normalize.
+ * @returns The normalized error.
+ */
+export function normalizeError(error: unknown): unknown {
+  if (
+    !error ||
+    typeof error !== "object" ||
+    error instanceof NotFoundError ||
+    error instanceof ConflictError ||
+    error instanceof ValidationError ||
+    !("status" in error)
+  ) {
+    return error;
+  }
+
+  const message =
+    "message" in error && typeof error.message === "string"
+      ? error.message
+      : undefined;
+
+  switch (error.status) {
+    case 400:
+      return new ValidationError(message, error);
+    case 404:
+      return new NotFoundError(message, error);
+    case 409:
+      return new ConflictError(message, error);
+    default:
+      return error;
+  }
+}
@@ -6,7 +6,17 @@
  * @fileoverview Custom Events and related types.
  */
 
-import { Docs, Document, Existing } from "./types";
+import {
+  AggregateResult,
+  DocIndices,
+  DocMoves,
+  Docs,
+  Document,
+  Existing,
+  MigrationProgress,
+  ReplicationProgress,
+  UndoState,
+} from "./types";
 
 /**
  * Since our change queries always include docs, we extend the
@@ -17,6 +27,12 @@ export type ChangesResponseChange<DocType extends Document = Document> =
     doc: PouchDB.Core.ExistingDocument<DocType & PouchDB.Core.ChangesMeta>;
   };
 
+/**
+ * Where a change was received from: "local" for this instance's own PouchDB
+ * changes feed, or "remote" for a change relayed from another context.
+ */
+export type ChangeOrigin = "local" | "remote";
+
 /**
  * ChangeEvent is a subclass of the native `CustomEvent` for wrapping PouchDB
  * changes responses.
@@ -24,7 +40,14 @@ export type ChangesResponseChange<DocType extends Document = Document> =
 export class ChangeEvent<
   DocType extends Document = Document,
 > extends CustomEvent<ChangesResponseChange<DocType>> {
-  constructor(change: ChangesResponseChange<DocType>) {
+  /**
+   * @param change PouchDB changes response.
+   * @param origin Where the change was received from.
+   */
+  constructor(
+    change: ChangesResponseChange<DocType>,
+    readonly origin: ChangeOrigin = "local",
+  ) {
     super("change", { detail: change });
   }
 }
@@ -36,13 +59,46 @@ export type ChangeEventListener<DocType extends Document> = (
   changeEvent: ChangeEvent<DocType>,
 ) => void;
 
+/**
+ * Event dispatched by a HeartDB in optimistic mode when a write begins, with a
+ * pending overlay of the written document, or when a write fails, with the
+ * document as stored (or as deleted, if missing) to roll the overlay back.
+ * Pending overlays have a pending revision, detected by HeartDB's
+ * `isPending()` method, and are superseded by the write's change once it
+ * settles.
+ */
+export class PendingChangeEvent<
+  DocType extends Document = Document,
+> extends CustomEvent<ChangesResponseChange<DocType>> {
+  /**
+   * @param change Pending overlay or rollback, in the form of a change.
+   */
+  constructor(change: ChangesResponseChange<DocType>) {
+    super("pendingchange", { detail: change });
+  }
+}
+
+/**
+ * Listener for pending change events.
+ */
+export type PendingChangeEventListener<DocType extends Document> = (
+  pendingChangeEvent: PendingChangeEvent<DocType>,
+) => void;
+
 /**
  * Event dispatched by a LiveQuery when documents enter the result set.
  */
 export class EnterEvent<LiveQueryDocType extends Document> extends CustomEvent<
   Docs<LiveQueryDocType>
 > {
-  constructor(detail: Docs<LiveQueryDocType>) {
+  /**
+   * @param detail Entering documents.
+   * @param indices Positions of entering documents in the ordered results.
+   */
+  constructor(
+    detail: Docs<LiveQueryDocType>,
+    readonly indices: DocIndices = {},
+  ) {
     super("enter", { detail });
   }
 }
@@ -60,7 +116,14 @@ export type EnterEventListener<DocType extends Document> = (
 export class UpdateEvent<LiveQueryDocType extends Document> extends CustomEvent<
   Docs<LiveQueryDocType>
 > {
-  constructor(detail: Docs<LiveQueryDocType>) {
+  /**
+   * @param detail Updated documents.
+   * @param moves Movements of updated documents within the ordered results.
+   */
+  constructor(
+    detail: Docs<LiveQueryDocType>,
+    readonly moves: DocMoves = {},
+  ) {
     super("update", { detail });
   }
 }
@@ -78,7 +141,14 @@ export type UpdateEventListener<DocType extends Document> = (
 export class ExitEvent<LiveQueryDocType extends Document> extends CustomEvent<
   Docs<LiveQueryDocType>
 > {
-  constructor(detail: Docs<LiveQueryDocType>) {
+  /**
+   * @param detail Exiting documents.
+   * @param indices Positions exiting documents had in the ordered results.
+   */
+  constructor(
+    detail: Docs<LiveQueryDocType>,
+    readonly indices: DocIndices = {},
+  ) {
     super("exit", { detail });
   }
 }
@@ -125,3 +195,232 @@ export class SetEvent<LiveDocType extends Document> extends CustomEvent<
 export type SetEventListener<DocType extends Document> = (
   setEvent: SetEvent<DocType>,
 ) => void;
+
+/**
+ * Event dispatched by a Replication when it starts or resumes replicating.
+ */
+export class ReplicationActiveEvent extends CustomEvent<ReplicationProgress> {
+  /**
+   * @param detail Progress so far.
+   */
+  constructor(detail: ReplicationProgress) {
+    super("active", { detail });
+  }
+}
+
+/**
+ * Listener for replication active events.
+ */
+export type ReplicationActiveEventListener = (
+  activeEvent: ReplicationActiveEvent,
+) => void;
+
+/**
+ * Event dispatched by a Replication when it has caught up and is waiting for
+ * further changes, or has been interrupted (e.g. by going offline).
+ */
+export class ReplicationPausedEvent extends CustomEvent<ReplicationProgress> {
+  /**
+   * @param detail Progress so far.
+   * @param error Error which interrupted replication, if any.
+   */
+  constructor(
+    detail: ReplicationProgress,
+    readonly error?: unknown,
+  ) {
+    super("paused", { detail });
+  }
+}
+
+/**
+ * Listener for replication paused events.
+ */
+export type ReplicationPausedEventListener = (
+  pausedEvent: ReplicationPausedEvent,
+) => void;
+
+/**
+ * Event dispatched by a Replication when it fails with an unrecoverable error.
+ */
+export class ReplicationErrorEvent extends CustomEvent<ReplicationProgress> {
+  /**
+   * @param detail Progress so far.
+   * @param error Error which stopped replication.
+   */
+  constructor(
+    detail: ReplicationProgress,
+    readonly error: unknown,
+  ) {
+    super("error", { detail });
+  }
+}
+
+/**
+ * Listener for replication error events.
+ */
+export type ReplicationErrorEventListener = (
+  errorEvent: ReplicationErrorEvent,
+) => void;
+
+/**
+ * Event dispatched by a Replication when it finishes, which for a live
+ * replication only happens if it's cancelled by the remote.
+ */
+export class ReplicationCompleteEvent extends CustomEvent<ReplicationProgress> {
+  /**
+   * @param detail Final progress.
+   */
+  constructor(detail: ReplicationProgress) {
+    super("complete", { detail });
+  }
+}
+
+/**
+ * Listener for replication complete events.
+ */
+export type ReplicationCompleteEventListener = (
+  completeEvent: ReplicationCompleteEvent,
+) => void;
+
+/**
+ * Event dispatched by a Replication when a document fails to replicate due to
+ * a validation function or lack of permissions.
+ */
+export class ReplicationDeniedEvent extends CustomEvent<ReplicationProgress> {
+  /**
+   * @param detail Progress so far.
+   * @param error Error describing why the document was denied.
+   */
+  constructor(
+    detail: ReplicationProgress,
+    readonly error: unknown,
+  ) {
+    super("denied", { detail });
+  }
+}
+
+/**
+ * Listener for replication denied events.
+ */
+export type ReplicationDeniedEventListener = (
+  deniedEvent: ReplicationDeniedEvent,
+) => void;
+
+/**
+ * Event dispatched by a HeartDB when it gains or loses leadership among the
+ * contexts sharing its channel.
+ */
+export class LeadershipChangeEvent extends CustomEvent<boolean> {
+  /**
+   * @param detail Whether the HeartDB is now the leader.
+   */
+  constructor(detail: boolean) {
+    super("leadershipchange", { detail });
+  }
+}
+
+/**
+ * Listener for leadership change events.
+ */
+export type LeadershipChangeEventListener = (
+  leadershipChangeEvent: LeadershipChangeEvent,
+) => void;
+
+/**
+ * Event dispatched by a LiveDoc when its document has conflicting revisions,
+ * such as after replication or concurrent writes from several contexts.
+ */
+export class ConflictEvent extends CustomEvent<PouchDB.Core.RevisionId[]> {
+  /**
+   * @param detail Revisions conflicting with the document's winning revision.
+   */
+  constructor(detail: PouchDB.Core.RevisionId[]) {
+    super("conflict", { detail });
+  }
+}
+
+/**
+ * Listener for conflict events.
+ */
+export type ConflictEventListener = (conflictEvent: ConflictEvent) => void;
+
+/**
+ * Event dispatched by a LiveDoc when attachments of its document are added,
+ * changed (as indicated by their digest) or removed.
+ */
+export class AttachmentChangeEvent extends CustomEvent<
+  PouchDB.Core.AttachmentId[]
+> {
+  /**
+   * @param detail Ids of the added, changed or removed attachments.
+   */
+  constructor(detail: PouchDB.Core.AttachmentId[]) {
+    super("attachmentchange", { detail });
+  }
+}
+
+/**
+ * Listener for attachment change events.
+ */
+export type AttachmentChangeEventListener = (
+  attachmentChangeEvent: AttachmentChangeEvent,
+) => void;
+
+/**
+ * Event dispatched by a HeartDB after each batch of documents processed by its
+ * `migrateAll()` method.
+ */
+export class MigrationProgressEvent extends CustomEvent<MigrationProgress> {
+  /**
+   * @param detail Counts of documents processed so far.
+   */
+  constructor(detail: MigrationProgress) {
+    super("migrationprogress", { detail });
+  }
+}
+
+/**
+ * Listener for migration progress events.
+ */
+export type MigrationProgressEventListener = (
+  migrationProgressEvent: MigrationProgressEvent,
+) => void;
+
+/**
+ * Event dispatched by an UndoManager when the availability of undo or redo may
+ * have changed.
+ */
+export class UndoStateChangeEvent extends CustomEvent<UndoState> {
+  /**
+   * @param detail Current availability of undo and redo.
+   */
+  constructor(detail: UndoState) {
+    super("undostatechange", { detail });
+  }
+}
+
+/**
+ * Listener for undo state change events.
+ */
+export type UndoStateChangeEventListener = (
+  undoStateChangeEvent: UndoStateChangeEvent,
+) => void;
+
+/**
+ * Event dispatched by a LiveAggregate when its result changes.
+ */
+export class AggregateChangeEvent extends CustomEvent<AggregateResult> {
+  /**
+   * @param detail New aggregate result.
+   */
+  constructor(detail: AggregateResult) {
+    super("aggregatechange", { detail });
+  }
+}
+
+/**
+ * Listener for aggregate change events.
+ */
+export type AggregateChangeEventListener = (
+  aggregateChangeEvent: AggregateChangeEvent,
+) => void;
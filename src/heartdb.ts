@@ -7,16 +7,68 @@
  */
 
 // Internal dependencies.
+import { AuditLog, AuditLogOptions } from "./audit-log";
 import { CloseableEventTarget } from "./closeable-event-target";
-import { InternalError } from "./errors";
+import {
+  ClosedError,
+  ConflictError,
+  ImmutableFieldError,
+  InternalError,
+  InvalidStateError,
+  NotFoundError,
+  RetriesExhaustedError,
+  TransactionError,
+  ValidationError,
+  normalizeError,
+} from "./errors";
 import {
   ChangeEvent,
   ChangeEventListener,
+  ChangeOrigin,
   ChangesResponseChange,
+  LeadershipChangeEvent,
+  LeadershipChangeEventListener,
+  MigrationProgressEvent,
+  MigrationProgressEventListener,
+  PendingChangeEvent,
+  PendingChangeEventListener,
 } from "./events";
+import {
+  LeaderElection,
+  LeaderMessage,
+  createInstanceId,
+  isLeaderMessage,
+} from "./leader-election";
 import { LiveDoc } from "./live-doc";
 import { LiveQuery } from "./live-query";
-import { Document, Existing, UpdateCallbackFunction } from "./types";
+import { Replication } from "./replication";
+import {
+  createPendingRevision,
+  getCommonAncestor,
+  isPendingRevision,
+} from "./revisions";
+import { StagedWrite, Transaction } from "./transaction";
+import { BroadcastChannelTransport } from "./transport";
+import {
+  AuditEntry,
+  ConflictResolver,
+  BulkDocsResult,
+  Document,
+  Existing,
+  LeaderTask,
+  Middleware,
+  MigrationFunction,
+  MigrationProgress,
+  PromiseOrValue,
+  RetryPolicy,
+  Transport,
+  UpdateCallbackFunction,
+  ValidationIssue,
+  Validator,
+  WriteOperation,
+} from "./types";
+import { UndoManager, UndoManagerOptions } from "./undo-manager";
+import { runValidator } from "./validation";
 import { wrapWithFindPlugin } from "./wrap-with-find-plugin";
 
 /**
@@ -24,13 +76,217 @@ import { wrapWithFindPlugin } from "./wrap-with-find-plugin";
  */
 const BROADTAST_CHANNEL_NAME_PREFIX = "heartdb_";
 
+/**
+ * Number of documents to request per find() when collecting all documents
+ * matching a selector.
+ */
+const FIND_PAGE_SIZE = 100;
+
+/**
+ * Options for configuring a HeartDB instance.
+ * @template DocType Type of document in the HeartDB.
+ */
+export interface HeartDBOptions<DocType extends Document = Document> {
+  /**
+   * Name of a document field used to flag documents as removed. When set,
+   * `remove()` and `removeWhere()` set this field to `true` instead of deleting
+   * documents, and LiveQuery results omit flagged documents.
+   */
+  softDeleteField?: string;
+
+  /**
+   * Policy for retrying `update()` calls which fail due to conflicts. Defaults
+   * to five attempts with exponential backoff.
+   */
+  updateRetryPolicy?: RetryPolicy;
+
+  /**
+   * Sequence from which to start following the changes feed, such as a
+   * checkpoint previously read from `lastSeq`. Changes made after this point
+   * are replayed as change events. Defaults to "now".
+   */
+  since?: number | string;
+
+  /**
+   * Transport for relaying changes to HeartDB instances in other execution
+   * contexts. Closed when the HeartDB is closed. Defaults to a
+   * BroadcastChannelTransport named after the database.
+   */
+  transport?: Transport<ChangesResponseChange | LeaderMessage>;
+
+  /**
+   * Number of recent changes to remember in order to de-duplicate changes
+   * received both from the local changes feed and from another context.
+   * Defaults to 1000.
+   */
+  dedupeWindowSize?: number;
+
+  /**
+   * Milliseconds between leader heartbeats, once leader election has started.
+   * Followers claim leadership after three intervals without a heartbeat.
+   * Defaults to 1000.
+   */
+  leaderHeartbeatInterval?: number;
+
+  /**
+   * Validators for documents, keyed by the value of their type field. Writes
+   * of documents which fail validation are rejected with a ValidationError.
+   * Documents whose type has no validator are not validated. More validators
+   * may be added with `registerValidator()`.
+   */
+  validators?: Record<string, Validator<DocType>>;
+
+  /**
+   * Name of the document field holding the type used to select a validator.
+   * Defaults to "type".
+   */
+  typeField?: string;
+
+  /**
+   * Whether LiveQuery and LiveDoc should omit documents which fail validation,
+   * such as those written by another version of the app.
+   */
+  filterInvalidReads?: boolean;
+
+  /**
+   * Migrations which upgrade documents, keyed by the schema version each one
+   * upgrades to. Versions should be positive integers. Outdated documents are
+   * migrated as they're read, and may be rewritten in bulk with
+   * `migrateAll()`. More migrations may be added with `registerMigration()`.
+   */
+  migrations?: Record<number, MigrationFunction<DocType>>;
+
+  /**
+   * Name of the document field holding the schema version. Documents read
+   * without one are considered to be at version 0, while documents written
+   * without one are considered to be at the latest version. Defaults to
+   * "schemaVersion".
+   */
+  versionField?: string;
+
+  /**
+   * Middleware to intercept reads and writes, invoked in order. More may be
+   * added with `use()`.
+   */
+  middleware?: Middleware<DocType>[];
+
+  /**
+   * Whether to keep an audit log of changes written through this instance, or
+   * options for configuring it. Read with `history()`.
+   */
+  audit?: boolean | AuditLogOptions;
+
+  /**
+   * Whether `put()` (and the methods which write through it, such as
+   * `update()` and `remove()`) should be optimistic. Optimistic writes are
+   * shown immediately by LiveQuery and LiveDoc as pending overlays, which are
+   * confirmed when the change settles, or rolled back if the write fails.
+   */
+  optimistic?: boolean;
+
+  /**
+   * Resolvers for conflicting revisions of documents, keyed by the value of
+   * their type field, used by `resolveConflicts()` when not passed a resolver.
+   * More may be added with `registerConflictResolver()`.
+   */
+  conflictResolvers?: Record<string, ConflictResolver<DocType>>;
+}
+
+/**
+ * Default number of recent changes to remember for de-duplication.
+ */
+const DEFAULT_DEDUPE_WINDOW_SIZE = 1000;
+
+/**
+ * Default milliseconds between leader heartbeats.
+ */
+const DEFAULT_LEADER_HEARTBEAT_INTERVAL = 1000;
+
+/**
+ * Default policy for retrying conflicted updates.
+ */
+const DEFAULT_UPDATE_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  backoff: (attempt) => 10 * 2 ** (attempt - 1),
+};
+
+/**
+ * Successful write within a bulkDocs() call which is awaiting its change.
+ */
+interface PendingBulkWrite {
+  /**
+   * Latest PouchDB response for the written document.
+   */
+  response: PouchDB.Core.Response;
+
+  /**
+   * Indices of the writes to this document within the bulk request.
+   */
+  indices: number[];
+}
+
+/**
+ * Hold on change events for some documents, which are collected rather than
+ * emitted until the hold is released.
+ */
+interface ChangeHold {
+  /**
+   * Ids of the held documents.
+   */
+  ids: Set<PouchDB.Core.DocumentId>;
+
+  /**
+   * Latest held change of each document, and where it came from.
+   */
+  changes: Map<
+    PouchDB.Core.DocumentId,
+    { change: ChangesResponseChange; origin: ChangeOrigin }
+  >;
+
+  /**
+   * Callback invoked after each change is held.
+   */
+  onHold?: () => void;
+}
+
+/**
+ * Determine whether a change reflects a write, given the PouchDB response to
+ * that write. Since the changes feed reports only a document's latest revision,
+ * a change for a later revision also counts.
+ * @param change Change to check.
+ * @param response PouchDB response to the write.
+ * @returns Whether the change reflects the write.
+ */
+function isChangeForWrite(
+  change: ChangesResponseChange<Document>,
+  response: PouchDB.Core.Response,
+): boolean {
+  if (change.id !== response.id) {
+    return false;
+  }
+  const changeRev = change.doc._rev;
+  return (
+    changeRev === response.rev ||
+    parseInt(changeRev, 10) > parseInt(response.rev, 10)
+  );
+}
+
 /**
  * HeartDB is a subscription-based, type-safe wrapper around PouchDB (with
- * pouch-find). It uses BroadcastChannels to ensure that changed documents in
- * one execution context (e.g. tab) are detected in all other contexts.
+ * pouch-find). It uses BroadcastChannels (or another Transport) to ensure that
+ * changed documents in one execution context (e.g. tab) are detected in all
+ * other contexts.
+ *
+ * HeartDB instances sharing a channel can also elect a leader among themselves,
+ * so that singleton work (such as replication) is performed by only one
+ * context at a time. See `runAsLeader()`.
  *
  * @template DocType Base type of documents stored in the HeartDB.
  * @emits change When a document changes.
+ * @emits pendingchange When an optimistic write begins, or fails.
+ * @emits leadershipchange When this instance gains or loses leadership.
+ * @emits migrationprogress After each batch of documents processed by migrateAll().
+ * @emits error When a leader task or afterWrite middleware fails.
  */
 export class HeartDB<
   DocType extends Document = Document,
@@ -40,22 +296,37 @@ export class HeartDB<
    */
   readonly pouchDb: PouchDB.Database<DocType>;
 
+  /**
+   * Options this instance was configured with.
+   */
+  readonly options: HeartDBOptions<DocType>;
+
   /**
    * Channel name used for inter-instance communication.
    */
   readonly channelName: string;
 
   /**
-   * Broadcast channel for communicating change events across contexts.
+   * Random id of this instance, identifying its execution context in leader
+   * election and audit entries.
    */
-  readonly channel: BroadcastChannel;
+  readonly instanceId = createInstanceId();
 
   /**
-   * Bound listener for handling incoming messages from the channel.
+   * Audit log of changes written through this instance, if enabled.
    */
-  private channelEventListener: (
-    messageEvent: MessageEvent<ChangesResponseChange<DocType>>,
-  ) => void;
+  readonly auditLog?: AuditLog<DocType>;
+
+  /**
+   * Transport for communicating change events (and leader election messages)
+   * across contexts.
+   */
+  readonly channel: Transport<ChangesResponseChange<DocType> | LeaderMessage>;
+
+  /**
+   * Function to unsubscribe from incoming messages on the channel.
+   */
+  private channelDisconnect: () => void;
 
   /**
    * PouchDB changes object.
@@ -69,35 +340,130 @@ export class HeartDB<
     changeResponse: ChangesResponseChange<DocType>,
   ) => void;
 
+  /**
+   * Sequence of the last change processed from the PouchDB changes feed, or
+   * the `since` option if no change has been processed yet. Updated before
+   * the change is dispatched, so change listeners can store it as a
+   * checkpoint from which to resume later.
+   */
+  get lastSeq(): number | string | undefined {
+    return this.seq;
+  }
+
+  /**
+   * Backing field for `lastSeq`.
+   */
+  private seq?: number | string;
+
+  /**
+   * Keys of recently dispatched changes, in the order received, for
+   * de-duplication.
+   */
+  private readonly recentChangeKeys = new Set<string>();
+
+  /**
+   * Active holds on change events, such as for transactions being committed.
+   */
+  private readonly changeHolds = new Set<ChangeHold>();
+
+  /**
+   * Optimistic writes which haven't yet settled, keyed by pending revision.
+   */
+  private readonly pendingWrites = new Map<
+    PouchDB.Core.RevisionId,
+    Promise<ChangesResponseChange<DocType>>
+  >();
+
+  /**
+   * Leader election, started on first use of a leadership method.
+   */
+  private leaderElection?: LeaderElection;
+
+  /**
+   * Document validators, keyed by type.
+   */
+  private readonly validators: Map<string, Validator<DocType>>;
+
+  /**
+   * Conflict resolvers, keyed by type.
+   */
+  private readonly conflictResolvers: Map<string, ConflictResolver<DocType>>;
+
+  /**
+   * Registered migrations, keyed by the schema version each upgrades to.
+   */
+  private readonly migrations: Map<number, MigrationFunction<DocType>>;
+
+  /**
+   * Middleware, in the order added.
+   */
+  private readonly middleware: Middleware<DocType>[];
+
   /**
    * @param pouchDb PouchDB instance to wrap.
+   * @param options Optional configuration.
    */
-  constructor(pouchDb: PouchDB.Database<DocType>) {
+  constructor(
+    pouchDb: PouchDB.Database<DocType>,
+    options: HeartDBOptions<DocType> = {},
+  ) {
     super();
 
+    this.options = options;
+
+    this.validators = new Map(Object.entries(options.validators ?? {}));
+
+    this.conflictResolvers = new Map(
+      Object.entries(options.conflictResolvers ?? {}),
+    );
+
+    this.middleware = [...(options.middleware ?? [])];
+
+    this.migrations = new Map(
+      Object.entries(options.migrations ?? {}).map(([version, migration]) => [
+        Number(version),
+        migration,
+      ]),
+    );
+
     // Ensure that our pouchDb object has the pouchdb-find plugin methods.
     this.pouchDb = wrapWithFindPlugin(pouchDb);
 
     this.channelName = `${BROADTAST_CHANNEL_NAME_PREFIX}${this.pouchDb.name}`;
 
     // Handle all incoming change messages.
-    this.channel = new BroadcastChannel(this.channelName);
-    this.channelEventListener = (messageEvent) => {
-      this.dispatchEvent(new ChangeEvent(messageEvent.data));
-    };
-    this.channel.onmessage = this.channelEventListener;
+    this.channel = (options.transport ??
+      new BroadcastChannelTransport(this.channelName)) as Transport<
+      ChangesResponseChange<DocType> | LeaderMessage
+    >;
+    this.channelDisconnect = this.channel.subscribe((message) => {
+      if (isLeaderMessage(message)) {
+        this.leaderElection?.handleMessage(message);
+        return;
+      }
+      if (this.rememberChange(message)) {
+        this.emitChange(message, "remote");
+      }
+    });
 
-    // Setup PouchDB changes feed.
+    // Setup PouchDB changes feed, resuming from a checkpoint if provided.
+    const since = options.since ?? "now";
+    this.seq = since === "now" ? undefined : since;
     this.changes = this.pouchDb.changes({
-      since: "now",
+      since,
       live: true,
       include_docs: true,
+      conflicts: true,
     });
 
-    // Reflect PouchDB changes to channel, and emit.
+    // Record the sequence, reflect PouchDB changes to channel, and emit. When
+    // contexts share a database, a change may already have been relayed by the
+    // context which made it, in which case it's neither relayed nor emitted.
     this.dbChangeEventListener = (change) => {
-      this.channel.postMessage(change);
-      this.dispatchEvent(new ChangeEvent(change));
+      this.seq = change.seq;
+      if (this.rememberChange(change)) {
+        this.emitChange(change, "local");
+      }
     };
     this.changes.on(
       "change",
@@ -105,6 +471,14 @@ export class HeartDB<
         changeResponse: PouchDB.Core.ChangesResponseChange<DocType>,
       ) => void,
     );
+
+    // Start recording writes, if auditing is enabled.
+    if (options.audit) {
+      this.auditLog = new AuditLog(
+        this,
+        options.audit === true ? {} : options.audit,
+      );
+    }
   }
 
   /**
@@ -115,7 +489,12 @@ export class HeartDB<
       return;
     }
 
-    this.channel.onmessage = null;
+    // Resign leadership (if leader) while the channel is still open.
+    this.leaderElection?.close();
+
+    this.auditLog?.close();
+
+    this.channelDisconnect();
     this.channel.close();
 
     this.changes.removeListener("change", this.dbChangeEventListener);
@@ -124,6 +503,58 @@ export class HeartDB<
     super.close();
   }
 
+  /**
+   * Emit a change, relaying it to other contexts if it came from the local
+   * changes feed. Changes to documents which are held (e.g. by a transaction)
+   * are collected instead, and emitted when the hold is released.
+   * @param change Change to emit.
+   * @param origin Where the change was received from.
+   */
+  private emitChange(
+    change: ChangesResponseChange<DocType>,
+    origin: ChangeOrigin,
+  ) {
+    for (const hold of this.changeHolds) {
+      if (hold.ids.has(change.id)) {
+        hold.changes.set(change.id, { change, origin });
+        hold.onHold?.call(null);
+        return;
+      }
+    }
+    if (origin === "local") {
+      this.channel.postMessage(change);
+    }
+    this.dispatchEvent(new ChangeEvent(change, origin));
+  }
+
+  /**
+   * Remember a change for de-duplication, keyed by document id, revision and
+   * conflicting revisions (since a conflict may arrive without changing the
+   * winning revision). Only the most recent changes are remembered, per the
+   * `dedupeWindowSize` option.
+   * @param change Change to remember.
+   * @returns Whether the change is new, as opposed to a duplicate.
+   */
+  private rememberChange(change: ChangesResponseChange<DocType>): boolean {
+    const conflicts = change.doc._conflicts ?? [];
+    const key = `${change.id}\n${change.doc._rev}\n${conflicts.join(",")}`;
+    if (this.recentChangeKeys.has(key)) {
+      return false;
+    }
+
+    this.recentChangeKeys.add(key);
+
+    // Sets iterate in insertion order, so the first key is the oldest.
+    const windowSize =
+      this.options.dedupeWindowSize ?? DEFAULT_DEDUPE_WINDOW_SIZE;
+    while (this.recentChangeKeys.size > windowSize) {
+      const [oldestKey] = this.recentChangeKeys;
+      this.recentChangeKeys.delete(oldestKey);
+    }
+
+    return true;
+  }
+
   /**
    * Subscsribe to changes.
    * @param listener Callback function to invoke on change.
@@ -135,74 +566,301 @@ export class HeartDB<
     return this.addEventListener("change", callback);
   }
 
+  /**
+   * Listen for pending overlays of optimistic writes, and their rollbacks.
+   * @param listener Callback function to invoke on pending change.
+   * @returns Function to call to unsubscribe.
+   */
+  onPendingChange<ChangeDocType extends DocType>(
+    listener: PendingChangeEventListener<ChangeDocType>,
+  ): () => void {
+    return this.addEventListener("pendingchange", listener);
+  }
+
+  /**
+   * Determine whether a document is the pending overlay of an optimistic write
+   * which hasn't yet settled.
+   * @param doc Document to check.
+   * @returns Whether the document is pending.
+   */
+  isPending(doc: Document): boolean {
+    return !!doc._rev && isPendingRevision(doc._rev);
+  }
+
   /**
    * Put a document into the database, but instead of returning the PouchDB
    * response, listen for the associated change and return that instead. This
    * ensures that the document has been fully settled, and subscribers notified.
+   *
+   * The document is first passed through any beforeWrite middleware, and the
+   * change through any afterWrite middleware before the Promise resolves.
+   *
+   * In optimistic mode, a pending overlay of the document is dispatched as
+   * soon as it has passed validation, and rolled back if the write fails. A
+   * pending overlay may itself be put (e.g. by a UI reacting to it), in which
+   * case the write waits for the pending write to settle, and is made on top
+   * of it.
    * @param doc Document to put.
    * @returns Promise that resolves with the change event.
+   * @throws {ValidationError} If the document fails validation.
+   * @throws {ConflictError} If put over a pending write which failed or
+   * already settled.
    */
-  put(
+  async put(
     doc: DocType & PouchDB.Core.IdMeta,
   ): Promise<ChangesResponseChange<DocType>> {
-    return new Promise<ChangesResponseChange<DocType>>((resolve, reject) => {
-      const disconnect = this.onChange((changeEvent) => {
-        if (changeEvent.detail.id === doc._id) {
-          resolve(changeEvent.detail);
-          disconnect();
+    return this.writeDoc(doc, "put");
+  }
+
+  /**
+   * Write a document as described by `put()`, passing the given operation to
+   * middleware.
+   * @param doc Document to write.
+   * @param operation Method through which the document is being written.
+   * @returns Promise that resolves with the change event.
+   */
+  private async writeDoc(
+    doc: DocType & PouchDB.Core.IdMeta,
+    operation: WriteOperation,
+  ): Promise<ChangesResponseChange<DocType>> {
+    const preparedDoc = await this.prepareForWrite(
+      await this.settlePendingRevision(doc),
+      operation,
+    );
+
+    let change: ChangesResponseChange<DocType>;
+    if (this.options.optimistic) {
+      const pendingRev = this.dispatchPendingChange(preparedDoc);
+      const write = this.writePut(preparedDoc);
+      this.pendingWrites.set(pendingRev, write);
+      try {
+        change = await write;
+      } catch (error) {
+        await this.rollbackPendingChange(preparedDoc._id);
+        throw error;
+      } finally {
+        this.pendingWrites.delete(pendingRev);
+      }
+    } else {
+      change = await this.writePut(preparedDoc);
+    }
+
+    await this.runAfterWrite(change, operation);
+    return change;
+  }
+
+  /**
+   * Replace the pending revision of a document being put over a pending write
+   * with the revision that write settles at.
+   * @param doc Document being put.
+   * @returns Promise that resolves with the document at a real revision.
+   * @throws {ConflictError} If the pending write failed or already settled.
+   */
+  private async settlePendingRevision(
+    doc: DocType & PouchDB.Core.IdMeta,
+  ): Promise<DocType & PouchDB.Core.IdMeta> {
+    if (!this.isPending(doc)) {
+      return doc;
+    }
+    const pendingWrite = this.pendingWrites.get(doc._rev!);
+    const change = await pendingWrite?.catch(() => undefined);
+    if (!change) {
+      throw new ConflictError(
+        `Document "${doc._id}" was put over a pending write which failed or already settled.`,
+      );
+    }
+    return { ...doc, _rev: change.doc._rev };
+  }
+
+  /**
+   * Dispatch a pending overlay of a document about to be written optimistically.
+   * @param doc Document being written.
+   * @returns The overlay's pending revision.
+   */
+  private dispatchPendingChange(
+    doc: DocType & PouchDB.Core.IdMeta,
+  ): PouchDB.Core.RevisionId {
+    const rev = createPendingRevision(doc._rev);
+    const pendingDoc = { ...doc, _rev: rev };
+    this.dispatchEvent(
+      new PendingChangeEvent<DocType>({
+        id: doc._id,
+        seq: this.seq ?? 0,
+        changes: [{ rev }],
+        doc: pendingDoc,
+        deleted: !!doc._deleted,
+      }),
+    );
+    return rev;
+  }
+
+  /**
+   * Roll back the pending overlay of a failed optimistic write, by dispatching
+   * the document as stored, or as deleted if it's missing. Since the write has
+   * already failed, errors reading the document are dispatched, not thrown.
+   * @param docId Id of the document whose write failed.
+   */
+  private async rollbackPendingChange(docId: PouchDB.Core.DocumentId) {
+    let storedDoc: (DocType & Existing) | undefined;
+    try {
+      storedDoc = await this.pouchDb.get(docId);
+    } catch (error) {
+      const normalizedError = normalizeError(error);
+      if (!(normalizedError instanceof NotFoundError)) {
+        if (!this.closed) {
+          this.dispatchEvent(
+            new ErrorEvent("error", { error: normalizedError }),
+          );
         }
-      });
-      this.pouchDb.put(doc).catch((error) => {
-        disconnect();
-        reject(error);
-      });
-    });
+        return;
+      }
+    }
+
+    if (this.closed) {
+      return;
+    }
+
+    // A missing document is rolled back as deleted. Having no revision, it's
+    // given one in generation zero.
+    const rev = storedDoc?._rev ?? "0-0";
+    this.dispatchEvent(
+      new PendingChangeEvent<DocType>({
+        id: docId,
+        seq: this.seq ?? 0,
+        changes: [{ rev }],
+        doc:
+          storedDoc ??
+          ({ _id: docId, _rev: rev, _deleted: true } as DocType & Existing),
+        deleted: !storedDoc || !!storedDoc._deleted,
+      }),
+    );
   }
 
   /**
-   * Post a document into the database, but instead of returning the PouchDB
-   * response, listen for the associated change and return that instead. This
-   * ensures that the document has been fully settled, and subscribers notified.
-   * @param doc Document to post.
+   * Put a document as described by `put()`, without middleware or validation.
+   * @param doc Document to put.
    * @returns Promise that resolves with the change event.
    */
-  post(doc: DocType): Promise<ChangesResponseChange<DocType>> {
-    return new Promise<ChangesResponseChange<DocType>>((resolve, reject) => {
-      // A post operation necessarily doesn't have an _id until it resolves. So
-      // we'll need to keep track of the response, and we need to have that
-      // variable in scope before setting up event handlers.
-      let postResponse: PouchDB.Core.Response | undefined = undefined;
+  private writePut(
+    doc: DocType & PouchDB.Core.IdMeta,
+  ): Promise<ChangesResponseChange<DocType>> {
+    return this.writeSettled(() => this.pouchDb.put(doc));
+  }
 
-      // It's possible that the change broadcasting implementation could produce
-      // the change for our post even before we get the response back. But since
-      // we won't know the doc id until then, we may potentially have to queue
-      // change events to process.
+  /**
+   * Make a single-document write to the database, and wait for its change.
+   * @param write Function making the write, returning the PouchDB response.
+   * @returns Promise that resolves with the change event.
+   */
+  private writeSettled(
+    write: () => Promise<PouchDB.Core.Response>,
+  ): Promise<ChangesResponseChange<DocType>> {
+    return new Promise<ChangesResponseChange<DocType>>((resolve, reject) => {
+      // Changes are matched against the revision in the write response, not
+      // just the document id, so that a concurrent write to the same document
+      // isn't mistaken for this one. As with post(), this means change events
+      // may have to be queued until the response arrives.
+      let writeResponse: PouchDB.Core.Response | undefined = undefined;
       const changeQueue: ChangeEvent<DocType>[] = [];
-
-      // Like the postResponse, we'll need the disconnect callback function
-      // variable to be in scope before we can set it.
       let disconnect: (() => void) | undefined = undefined;
 
       // Handle change events by resolving the promise if we found the change
-      // matching our post response. Note that this method, while defined early,
-      // will not be invoked until the postResponse is available.
+      // matching our write response.
       const handleChange = (changeEvent: ChangeEvent<DocType>) => {
-        if (!postResponse) {
-          throw new InternalError("Post response not yet available.");
-        }
-
-        if (!disconnect) {
-          throw new InternalError("Disconnect function missing.");
+        if (!writeResponse) {
+          throw new InternalError("Write response not yet available.");
         }
 
-        if (changeEvent.detail.id === postResponse.id) {
+        if (disconnect && isChangeForWrite(changeEvent.detail, writeResponse)) {
           disconnect();
           disconnect = undefined;
           resolve(changeEvent.detail);
         }
       };
 
-      // On change, either handle it if we have the post response, or queue it
+      disconnect = this.onChange((changeEvent) => {
+        if (writeResponse) {
+          handleChange(changeEvent);
+        } else {
+          changeQueue.push(changeEvent);
+        }
+      });
+
+      write()
+        .then((response) => {
+          writeResponse = response;
+          for (const changeEvent of changeQueue) {
+            handleChange(changeEvent);
+          }
+        })
+        .catch((error) => {
+          disconnect?.();
+          disconnect = undefined;
+          reject(normalizeError(error));
+        });
+    });
+  }
+
+  /**
+   * Post a document into the database, but instead of returning the PouchDB
+   * response, listen for the associated change and return that instead. This
+   * ensures that the document has been fully settled, and subscribers notified.
+   *
+   * As with `put()`, the document and change are passed through middleware.
+   * @param doc Document to post.
+   * @returns Promise that resolves with the change event.
+   * @throws {ValidationError} If the document fails validation.
+   */
+  async post(doc: DocType): Promise<ChangesResponseChange<DocType>> {
+    const preparedDoc = await this.prepareForWrite(doc, "post");
+    const change = await this.writePost(preparedDoc);
+    await this.runAfterWrite(change, "post");
+    return change;
+  }
+
+  /**
+   * Post a document as described by `post()`, without middleware or
+   * validation.
+   * @param doc Document to post.
+   * @returns Promise that resolves with the change event.
+   */
+  private writePost(doc: DocType): Promise<ChangesResponseChange<DocType>> {
+    return new Promise<ChangesResponseChange<DocType>>((resolve, reject) => {
+      // A post operation necessarily doesn't have an _id until it resolves. So
+      // we'll need to keep track of the response, and we need to have that
+      // variable in scope before setting up event handlers.
+      let postResponse: PouchDB.Core.Response | undefined = undefined;
+
+      // It's possible that the change broadcasting implementation could produce
+      // the change for our post even before we get the response back. But since
+      // we won't know the doc id until then, we may potentially have to queue
+      // change events to process.
+      const changeQueue: ChangeEvent<DocType>[] = [];
+
+      // Like the postResponse, we'll need the disconnect callback function
+      // variable to be in scope before we can set it.
+      let disconnect: (() => void) | undefined = undefined;
+
+      // Handle change events by resolving the promise if we found the change
+      // matching our post response. Note that this method, while defined early,
+      // will not be invoked until the postResponse is available.
+      const handleChange = (changeEvent: ChangeEvent<DocType>) => {
+        if (!postResponse) {
+          throw new InternalError("Post response not yet available.");
+        }
+
+        if (!disconnect) {
+          throw new InternalError("Disconnect function missing.");
+        }
+
+        if (isChangeForWrite(changeEvent.detail, postResponse)) {
+          disconnect();
+          disconnect = undefined;
+          resolve(changeEvent.detail);
+        }
+      };
+
+      // On change, either handle it if we have the post response, or queue it
       // for later processing.
       disconnect = this.onChange((changeEvent) => {
         if (postResponse) {
@@ -224,13 +882,199 @@ export class HeartDB<
         .catch((error) => {
           disconnect?.();
           disconnect = undefined;
-          reject(error);
+          reject(normalizeError(error));
         });
     });
   }
 
   /**
-   * Get a document and return it, or undefined if not found.
+   * Write multiple documents to the database in a single request. Instead of
+   * returning the PouchDB response, wait for the changes of all successfully
+   * written documents. This ensures that every written document has been fully
+   * settled, and subscribers notified, before the returned Promise resolves.
+   *
+   * Each document is passed through middleware as with `put()`. Documents
+   * which fail validation, or are rejected by beforeWrite middleware, are not
+   * written. Their results carry the error.
+   * @param docs Documents to write. Those without an _id will be assigned one.
+   * @returns Promise that resolves with per-document results in input order.
+   */
+  async bulkDocs(docs: DocType[]): Promise<BulkDocsResult<DocType>[]> {
+    return this.writeDocs(docs, "bulkDocs");
+  }
+
+  /**
+   * Write multiple documents as described by `bulkDocs()`, passing the given
+   * operation to middleware.
+   * @param docs Documents to write.
+   * @param operation Method through which the documents are being written.
+   * @returns Promise that resolves with per-document results in input order.
+   */
+  private async writeDocs(
+    docs: DocType[],
+    operation: WriteOperation,
+  ): Promise<BulkDocsResult<DocType>[]> {
+    const results: (BulkDocsResult<DocType> | undefined)[] = [];
+    const preparedDocs: DocType[] = [];
+    for (const doc of docs) {
+      try {
+        preparedDocs.push(await this.prepareForWrite(doc, operation));
+        results.push(undefined);
+      } catch (error) {
+        results.push({
+          ok: false,
+          id: doc._id,
+          error: normalizeError(error) as Error,
+        });
+      }
+    }
+
+    // Fill in the results of the prepared documents, in order.
+    const writeResults = await this.writeBulkDocs(preparedDocs);
+    const mergedResults = results.map(
+      (result) => result ?? writeResults.shift()!,
+    );
+
+    for (const result of mergedResults) {
+      if (result.ok) {
+        await this.runAfterWrite(result.change, operation);
+      }
+    }
+
+    return mergedResults;
+  }
+
+  /**
+   * Write documents as described by `bulkDocs()`, without middleware or
+   * validation.
+   * @param docs Documents to write.
+   * @returns Promise that resolves with per-document results in input order.
+   */
+  private writeBulkDocs(docs: DocType[]): Promise<BulkDocsResult<DocType>[]> {
+    if (!docs.length) {
+      return Promise.resolve([]);
+    }
+
+    return new Promise<BulkDocsResult<DocType>[]>((resolve, reject) => {
+      // As with post(), the ids of written documents (and which writes
+      // succeeded) are not known until the bulk response arrives, so change
+      // events may have to be queued until then.
+      const changeQueue: ChangeEvent<DocType>[] = [];
+
+      // Results in input order. Entries for successful writes are filled in as
+      // their changes arrive.
+      let results: (BulkDocsResult<DocType> | undefined)[] | undefined =
+        undefined;
+
+      // Successful writes still awaiting a change, keyed by document id.
+      let pending: Map<PouchDB.Core.DocumentId, PendingBulkWrite> | undefined =
+        undefined;
+
+      let disconnect: (() => void) | undefined = undefined;
+
+      // Resolve once no successful writes are awaiting their changes.
+      const settleIfDone = () => {
+        if (!results || !pending) {
+          throw new InternalError("Bulk response not yet available.");
+        }
+
+        if (pending.size) {
+          return;
+        }
+
+        disconnect?.();
+        disconnect = undefined;
+        resolve(results as BulkDocsResult<DocType>[]);
+      };
+
+      // Handle change events by recording the change for each pending write
+      // of the changed document.
+      const handleChange = (changeEvent: ChangeEvent<DocType>) => {
+        if (!results || !pending) {
+          throw new InternalError("Bulk response not yet available.");
+        }
+
+        const { id } = changeEvent.detail;
+        const pendingWrite = pending.get(id);
+        if (
+          !pendingWrite ||
+          !isChangeForWrite(changeEvent.detail, pendingWrite.response)
+        ) {
+          return;
+        }
+
+        for (const index of pendingWrite.indices) {
+          results[index] = { ok: true, id, change: changeEvent.detail };
+        }
+        pending.delete(id);
+
+        settleIfDone();
+      };
+
+      disconnect = this.onChange((changeEvent) => {
+        if (pending) {
+          handleChange(changeEvent);
+        } else {
+          changeQueue.push(changeEvent);
+        }
+      });
+
+      this.pouchDb
+        .bulkDocs(docs)
+        .then((responses) => {
+          const bulkResults: (BulkDocsResult<DocType> | undefined)[] = [];
+          const bulkPending = new Map<
+            PouchDB.Core.DocumentId,
+            PendingBulkWrite
+          >();
+
+          responses.forEach((response, index) => {
+            if ((response as PouchDB.Core.Response).ok) {
+              const okResponse = response as PouchDB.Core.Response;
+              const pendingWrite = bulkPending.get(okResponse.id) ?? {
+                response: okResponse,
+                indices: [],
+              };
+              pendingWrite.response = okResponse;
+              pendingWrite.indices.push(index);
+              bulkPending.set(okResponse.id, pendingWrite);
+              bulkResults.push(undefined);
+            } else {
+              bulkResults.push({
+                ok: false,
+                id: response.id,
+                error: normalizeError(response) as Error,
+              });
+            }
+          });
+
+          results = bulkResults;
+          pending = bulkPending;
+
+          // Process any queued change events, stopping early if settled.
+          for (const changeEvent of changeQueue) {
+            if (!disconnect) {
+              break;
+            }
+            handleChange(changeEvent);
+          }
+
+          if (disconnect) {
+            settleIfDone();
+          }
+        })
+        .catch((error) => {
+          disconnect?.();
+          disconnect = undefined;
+          reject(normalizeError(error));
+        });
+    });
+  }
+
+  /**
+   * Get a document and return it, or undefined if not found. The document is
+   * prepared for reading as described by `readDoc()`. If it has conflicting
+   * revisions, they're listed in its `_conflicts` field.
    * @param docId Id of document to retrieve.
    * @returns Either the document, or undefined if not found.
    */
@@ -240,35 +1084,113 @@ export class HeartDB<
     let existingDoc: (GetDocType & Existing) | undefined = undefined;
 
     try {
-      existingDoc = await this.pouchDb.get<GetDocType>(docId);
+      existingDoc = await this.pouchDb.get<GetDocType>(docId, {
+        conflicts: true,
+      });
     } catch (error) {
-      if (
-        !error ||
-        !(typeof error === "object") ||
-        !("status" in error) ||
-        error.status !== 404
-      ) {
+      const normalizedError = normalizeError(error);
+      if (!(normalizedError instanceof NotFoundError)) {
         // Re-throw the error if it's anything other than 404 not found.
-        throw error;
+        throw normalizedError;
       }
     }
 
-    return existingDoc;
+    return existingDoc && this.readDoc(existingDoc);
   }
 
   /**
    * Update a document in the database. The update callback is passed the
    * existing document (or undefined if missing), and should return the updated
    * document. If the update callback returns undefined, the update is aborted.
+   * The existing document is migrated to the latest schema version, but not
+   * passed through onRead middleware, so fields derived on read aren't stored.
+   *
+   * If the document is changed elsewhere between being fetched and put, the
+   * put fails with a conflict. In that case, the document is fetched again and
+   * the update callback invoked again, according to the retry policy.
    * @param docId Id of the document to update.
    * @param updateCallback Callback function to update the document.
+   * @param retryPolicy Policy for retrying on conflict. Defaults to the
+   * HeartDB's `updateRetryPolicy` option.
    * @returns Promise with the change event, or undefined if aborted.
+   * @throws {ImmutableFieldError} If the callback changes the _id or _rev.
+   * @throws {ValidationError} If the updated document fails validation.
+   * @throws {RetriesExhaustedError} If every attempt failed with a conflict.
    */
   async update<UpdateDocType extends DocType = DocType>(
     docId: PouchDB.Core.DocumentId,
     updateCallback: UpdateCallbackFunction<UpdateDocType>,
+    retryPolicy: RetryPolicy = this.options.updateRetryPolicy ??
+      DEFAULT_UPDATE_RETRY_POLICY,
+  ): Promise<ChangesResponseChange<DocType> | undefined> {
+    return this.retryUpdate(docId, updateCallback, retryPolicy, "put");
+  }
+
+  /**
+   * Update a document as described by `update()`, passing the given operation
+   * to middleware.
+   * @param docId Id of the document to update.
+   * @param updateCallback Callback function to update the document.
+   * @param retryPolicy Policy for retrying on conflict.
+   * @param operation Method through which the document is being written.
+   * @returns Promise with the change event, or undefined if aborted.
+   */
+  private async retryUpdate<UpdateDocType extends DocType = DocType>(
+    docId: PouchDB.Core.DocumentId,
+    updateCallback: UpdateCallbackFunction<UpdateDocType>,
+    retryPolicy: RetryPolicy,
+    operation: WriteOperation,
+  ): Promise<ChangesResponseChange<DocType> | undefined> {
+    const { maxAttempts, backoff = 0 } = retryPolicy;
+
+    let attempt = 0;
+    while (true) {
+      attempt++;
+      try {
+        return await this.attemptUpdate(docId, updateCallback, operation);
+      } catch (error) {
+        if (!(error instanceof ConflictError)) {
+          throw error;
+        }
+
+        if (attempt >= maxAttempts) {
+          throw new RetriesExhaustedError(
+            `Update of document "${docId}" failed after ${attempt} attempts.`,
+            attempt,
+            error,
+          );
+        }
+
+        const delay =
+          typeof backoff === "function" ? backoff(attempt) : backoff;
+        if (delay > 0) {
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+    }
+  }
+
+  /**
+   * Make a single attempt to update a document, as described by `update()`.
+   * @param docId Id of the document to update.
+   * @param updateCallback Callback function to update the document.
+   * @param operation Method through which the document is being written.
+   * @returns Promise with the change event, or undefined if aborted.
+   */
+  private async attemptUpdate<UpdateDocType extends DocType = DocType>(
+    docId: PouchDB.Core.DocumentId,
+    updateCallback: UpdateCallbackFunction<UpdateDocType>,
+    operation: WriteOperation,
   ): Promise<ChangesResponseChange<DocType> | undefined> {
-    const existingDoc = await this.get<UpdateDocType>(docId);
+    let existingDoc: (UpdateDocType & Existing) | undefined = undefined;
+    try {
+      existingDoc = this.migrate(await this.pouchDb.get<UpdateDocType>(docId));
+    } catch (error) {
+      const normalizedError = normalizeError(error);
+      if (!(normalizedError instanceof NotFoundError)) {
+        throw normalizedError;
+      }
+    }
 
     const resultDoc = await updateCallback(existingDoc);
 
@@ -278,11 +1200,11 @@ export class HeartDB<
     }
 
     if (resultDoc._id !== undefined && resultDoc._id !== docId) {
-      throw new Error("document _id cannot be changed.");
+      throw new ImmutableFieldError("_id");
     }
 
     if (resultDoc._rev !== undefined && resultDoc._rev !== existingDoc?._rev) {
-      throw new Error("document _rev cannot be changed.");
+      throw new ImmutableFieldError("_rev");
     }
 
     // Return the result of putting the updated document.
@@ -291,7 +1213,837 @@ export class HeartDB<
       _id: docId,
       _rev: existingDoc?._rev,
     };
-    return this.put(updatedDoc);
+    return this.writeDoc(updatedDoc, operation);
+  }
+
+  /**
+   * Run a callback which stages reads and writes of several documents through
+   * a Transaction, then commit the staged writes together in a single bulk
+   * write. If any write fails (e.g. because a document was changed elsewhere
+   * since the transaction read it), the documents which were written are
+   * reverted. Change events for the written documents are held until the
+   * commit settles, so followers such as LiveQuery see only the outcome.
+   *
+   * Staged documents pass through middleware and validation as with `put()`,
+   * all before any is written. If the callback throws, nothing is written.
+   * @param callback Function which stages reads and writes. May be async.
+   * @returns Promise that resolves with the callback's result once committed.
+   * @throws {TransactionError} If the commit failed, after rolling back.
+   * @throws {ValidationError} If a staged document fails validation.
+   */
+  async transaction<ResultType>(
+    callback: (tx: Transaction<DocType>) => PromiseOrValue<ResultType>,
+  ): Promise<ResultType> {
+    const tx = new Transaction(this);
+    let result: ResultType;
+    try {
+      result = await callback(tx);
+    } finally {
+      // Nothing may be staged after the callback settles, even if it failed.
+      tx.finish();
+    }
+    await this.commit(tx.finish());
+    return result;
+  }
+
+  /**
+   * Commit a transaction's staged writes, as described by `transaction()`.
+   * @param writes Staged writes to commit.
+   * @throws {TransactionError} If the commit failed, after rolling back.
+   */
+  private async commit(writes: StagedWrite<DocType>[]) {
+    if (!writes.length) {
+      return;
+    }
+
+    // Prepare every document before writing any, so that a rejection aborts
+    // the transaction cleanly.
+    const docs: DocType[] = [];
+    for (const { doc } of writes) {
+      docs.push(await this.prepareForWrite(doc, "transaction"));
+    }
+
+    const hold: ChangeHold = {
+      ids: new Set(writes.map(({ doc }) => doc._id)),
+      changes: new Map(),
+    };
+    this.changeHolds.add(hold);
+
+    let committedChanges: ChangesResponseChange<DocType>[] = [];
+    try {
+      const responses = await this.pouchDb.bulkDocs(docs).catch((error) => {
+        // Nothing was written, so there's nothing to roll back.
+        throw new TransactionError(
+          "Transaction failed.",
+          normalizeError(error),
+          true,
+        );
+      });
+
+      const writtenResponses: PouchDB.Core.Response[] = [];
+      const writtenOriginals: StagedWrite<DocType>["original"][] = [];
+      let failure: unknown = undefined;
+      responses.forEach((response, index) => {
+        if ((response as PouchDB.Core.Response).ok) {
+          writtenResponses.push(response as PouchDB.Core.Response);
+          writtenOriginals.push(writes[index].original);
+        } else {
+          failure = failure ?? normalizeError(response);
+        }
+      });
+
+      if (failure === undefined) {
+        await this.awaitHeldChanges(hold, writtenResponses);
+        committedChanges = writtenResponses.map(
+          ({ id }) =>
+            hold.changes.get(id)!.change as ChangesResponseChange<DocType>,
+        );
+      } else {
+        const rolledBack = await this.revert(
+          hold,
+          writtenResponses,
+          writtenOriginals,
+        );
+        throw new TransactionError(
+          rolledBack
+            ? "Transaction failed and was rolled back."
+            : "Transaction failed and could not be fully rolled back.",
+          failure,
+          rolledBack,
+        );
+      }
+    } finally {
+      // Release held changes, now that the outcome has settled.
+      this.changeHolds.delete(hold);
+      for (const { change, origin } of hold.changes.values()) {
+        this.emitChange(change as ChangesResponseChange<DocType>, origin);
+      }
+    }
+
+    for (const change of committedChanges) {
+      await this.runAfterWrite(change, "transaction");
+    }
+  }
+
+  /**
+   * Revert documents written by a failed transaction to their original state,
+   * and wait for the resulting changes.
+   * @param hold Hold on the transaction's change events.
+   * @param writtenResponses Responses to the successful writes.
+   * @param originals Original state of each successfully written document.
+   * @returns Promise that resolves with whether every document was reverted.
+   */
+  private async revert(
+    hold: ChangeHold,
+    writtenResponses: PouchDB.Core.Response[],
+    originals: StagedWrite<DocType>["original"][],
+  ): Promise<boolean> {
+    if (!writtenResponses.length) {
+      return true;
+    }
+
+    const revertDocs = writtenResponses.map(
+      ({ id, rev }, index) =>
+        (!originals[index] || originals[index]._deleted
+          ? { _id: id, _rev: rev, _deleted: true }
+          : { ...originals[index], _rev: rev }) as DocType,
+    );
+
+    // Wait for the latest revision of each document, whether reverted or not.
+    const latestResponses = [...writtenResponses];
+    let rolledBack = true;
+    try {
+      const responses = await this.pouchDb.bulkDocs(revertDocs);
+      responses.forEach((response, index) => {
+        if ((response as PouchDB.Core.Response).ok) {
+          latestResponses[index] = response as PouchDB.Core.Response;
+        } else {
+          rolledBack = false;
+        }
+      });
+    } catch {
+      rolledBack = false;
+    }
+
+    await this.awaitHeldChanges(hold, latestResponses);
+    return rolledBack;
+  }
+
+  /**
+   * Wait until a hold has collected the changes reflecting some writes.
+   * @param hold Hold collecting changes.
+   * @param responses PouchDB responses to the writes.
+   */
+  private awaitHeldChanges(
+    hold: ChangeHold,
+    responses: PouchDB.Core.Response[],
+  ): Promise<void> {
+    return new Promise((resolve) => {
+      const check = () => {
+        const settled = responses.every((response) => {
+          const held = hold.changes.get(response.id);
+          return !!held && isChangeForWrite(held.change, response);
+        });
+        if (settled) {
+          hold.onHold = undefined;
+          resolve();
+        }
+      };
+      hold.onHold = check;
+      check();
+    });
+  }
+
+  /**
+   * Remove a document from the database. If the HeartDB was configured with a
+   * `softDeleteField`, the document is flagged as removed rather than deleted.
+   * Like `put()`, the returned Promise resolves with the associated change.
+   * @param docId Id of the document to remove.
+   * @returns Promise with the change event, or undefined if the document was
+   * missing or already removed.
+   */
+  async remove(
+    docId: PouchDB.Core.DocumentId,
+  ): Promise<ChangesResponseChange<DocType> | undefined> {
+    return this.retryUpdate(
+      docId,
+      (existingDoc) => {
+        if (!existingDoc || this.isRemoved(existingDoc)) {
+          return undefined;
+        }
+        return this.toRemoved(existingDoc);
+      },
+      this.options.updateRetryPolicy ?? DEFAULT_UPDATE_RETRY_POLICY,
+      "remove",
+    );
+  }
+
+  /**
+   * Add or replace an attachment of a document, creating the document if it
+   * doesn't exist. Like `put()`, the returned Promise resolves with the
+   * associated change, after passing it through any afterWrite middleware.
+   * Since the document's fields are unchanged, it isn't passed through
+   * beforeWrite middleware or validation.
+   * @param docId Id of the document.
+   * @param attachmentId Id (e.g. file name) of the attachment.
+   * @param data Contents of the attachment, as a Blob, Buffer or base64 string.
+   * @param contentType MIME type of the attachment.
+   * @param rev Revision of the document to attach to. Defaults to the latest.
+   * @returns Promise that resolves with the change event.
+   * @throws {ConflictError} If the revision isn't the latest.
+   */
+  async putAttachment(
+    docId: PouchDB.Core.DocumentId,
+    attachmentId: PouchDB.Core.AttachmentId,
+    data: PouchDB.Core.AttachmentData,
+    contentType: string,
+    rev?: PouchDB.Core.RevisionId,
+  ): Promise<ChangesResponseChange<DocType>> {
+    const targetRev = rev ?? (await this.get(docId))?._rev;
+    const change = await this.writeSettled(() =>
+      targetRev
+        ? this.pouchDb.putAttachment(
+            docId,
+            attachmentId,
+            targetRev,
+            data,
+            contentType,
+          )
+        : this.pouchDb.putAttachment(docId, attachmentId, data, contentType),
+    );
+    await this.runAfterWrite(change, "putAttachment");
+    return change;
+  }
+
+  /**
+   * Get the contents of a document's attachment.
+   * @param docId Id of the document.
+   * @param attachmentId Id of the attachment.
+   * @param rev Revision of the document. Defaults to the latest.
+   * @returns Promise that resolves with the contents (a Blob in browsers, or a
+   * Buffer in Node), or undefined if the document or attachment is missing.
+   */
+  async getAttachment(
+    docId: PouchDB.Core.DocumentId,
+    attachmentId: PouchDB.Core.AttachmentId,
+    rev?: PouchDB.Core.RevisionId,
+  ): Promise<Blob | Buffer | undefined> {
+    try {
+      return await this.pouchDb.getAttachment(
+        docId,
+        attachmentId,
+        rev ? { rev } : {},
+      );
+    } catch (error) {
+      const normalizedError = normalizeError(error);
+      if (!(normalizedError instanceof NotFoundError)) {
+        throw normalizedError;
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Remove an attachment from a document. As with `putAttachment()`, the
+   * returned Promise resolves with the associated change.
+   * @param docId Id of the document.
+   * @param attachmentId Id of the attachment.
+   * @param rev Revision of the document. Defaults to the latest.
+   * @returns Promise that resolves with the change event, or undefined if the
+   * document or attachment was missing.
+   * @throws {ConflictError} If the revision isn't the latest.
+   * @throws {NotFoundError} If a revision is given, and the document or
+   * attachment is missing.
+   */
+  async removeAttachment(
+    docId: PouchDB.Core.DocumentId,
+    attachmentId: PouchDB.Core.AttachmentId,
+    rev?: PouchDB.Core.RevisionId,
+  ): Promise<ChangesResponseChange<DocType> | undefined> {
+    let targetRev = rev;
+    if (!targetRev) {
+      const existingDoc = await this.get(docId);
+      if (!existingDoc?._attachments?.[attachmentId]) {
+        return undefined;
+      }
+      targetRev = existingDoc._rev;
+    }
+    const change = await this.writeSettled(() =>
+      this.pouchDb.removeAttachment(docId, attachmentId, targetRev),
+    );
+    await this.runAfterWrite(change, "removeAttachment");
+    return change;
+  }
+
+  /**
+   * Remove all documents matching a selector, as with `remove()`, in a single
+   * bulk write.
+   * @param selector Mango selector of documents to remove.
+   * @returns Promise with per-document results, as with `bulkDocs()`.
+   */
+  async removeWhere(
+    selector: PouchDB.Find.Selector,
+  ): Promise<BulkDocsResult<DocType>[]> {
+    const removedDocs: DocType[] = [];
+
+    // Collect all matching documents before writing any, since removal may
+    // otherwise shift the pages of subsequent find() requests.
+    let skip = 0;
+    let done = false;
+    while (!done) {
+      const results = await this.pouchDb
+        .find({ selector, skip, limit: FIND_PAGE_SIZE })
+        .catch((error) => {
+          throw normalizeError(error);
+        });
+      const docs = results.docs as (DocType & Existing)[];
+
+      skip += docs.length;
+
+      for (const doc of docs) {
+        if (!this.isRemoved(doc)) {
+          removedDocs.push(this.toRemoved(this.migrate(doc)));
+        }
+      }
+
+      done = docs.length < FIND_PAGE_SIZE;
+    }
+
+    return this.writeDocs(removedDocs, "remove");
+  }
+
+  /**
+   * Add middleware to intercept reads and writes. Middleware hooks are invoked
+   * in the order the middleware was added.
+   * @param middleware Middleware to add.
+   * @returns Function to call to remove the middleware.
+   */
+  use(middleware: Middleware<DocType>): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      const index = this.middleware.indexOf(middleware);
+      if (index !== -1) {
+        this.middleware.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Prepare a document for writing by passing it through each beforeWrite
+   * hook in turn, setting its schema version, and validating it.
+   * @param doc Document to be written.
+   * @param operation Method through which the document is being written.
+   * @returns Promise that resolves with the document to write.
+   * @throws {ValidationError} If the document fails validation.
+   */
+  private async prepareForWrite<PrepareDocType extends DocType>(
+    doc: PrepareDocType,
+    operation: WriteOperation,
+  ): Promise<PrepareDocType> {
+    let preparedDoc = doc;
+    for (const { beforeWrite } of [...this.middleware]) {
+      if (beforeWrite) {
+        preparedDoc = ((await beforeWrite(preparedDoc, { operation })) ??
+          preparedDoc) as PrepareDocType;
+      }
+    }
+
+    preparedDoc = this.stampVersion(preparedDoc);
+
+    const validationError = this.checkValidity(preparedDoc);
+    if (validationError) {
+      throw validationError;
+    }
+
+    return preparedDoc;
+  }
+
+  /**
+   * Pass a settled change through each afterWrite hook in turn. Since the
+   * write has already happened, errors are dispatched rather than thrown.
+   * @param change Change resulting from the write.
+   * @param operation Method through which the document was written.
+   */
+  private async runAfterWrite(
+    change: ChangesResponseChange<DocType>,
+    operation: WriteOperation,
+  ) {
+    for (const { afterWrite } of [...this.middleware]) {
+      try {
+        await afterWrite?.call(null, change, { operation });
+      } catch (error) {
+        if (!this.closed) {
+          this.dispatchEvent(new ErrorEvent("error", { error }));
+        }
+      }
+    }
+  }
+
+  /**
+   * Prepare a stored document for reading by migrating it to the latest schema
+   * version, then passing it through each onRead hook in turn. Used by `get()`,
+   * LiveDoc and LiveQuery.
+   * @param doc Stored document.
+   * @returns Document to read, or the same document if it's deleted or nothing
+   * changed it.
+   */
+  readDoc<ReadDocType extends DocType>(
+    doc: ReadDocType & Existing,
+  ): ReadDocType & Existing {
+    if (doc._deleted) {
+      return doc;
+    }
+    let readDoc = this.migrate(doc);
+    for (const { onRead } of this.middleware) {
+      if (onRead) {
+        readDoc = (onRead(readDoc) ?? readDoc) as ReadDocType & Existing;
+      }
+    }
+    return readDoc;
+  }
+
+  /**
+   * Register a validator for documents of a type, replacing any existing
+   * validator for that type.
+   * @param type Value of the type field of documents to validate.
+   * @param validator Predicate or schema descriptor.
+   * @returns Function to call to unregister the validator.
+   */
+  registerValidator<ValidatorDocType extends DocType = DocType>(
+    type: string,
+    validator: Validator<ValidatorDocType>,
+  ): () => void {
+    this.validators.set(type, validator as Validator<DocType>);
+    return () => {
+      if (this.validators.get(type) === validator) {
+        this.validators.delete(type);
+      }
+    };
+  }
+
+  /**
+   * Validate a document with the validator registered for its type. Deleted
+   * documents, and those whose type has no validator, are always valid.
+   * @param doc Document to validate.
+   * @returns List of issues, which is empty if the document is valid.
+   */
+  validate(doc: DocType): ValidationIssue[] {
+    if (doc._deleted) {
+      return [];
+    }
+    const type = this.getType(doc);
+    const validator =
+      type !== undefined ? this.validators.get(type) : undefined;
+    return validator ? runValidator(doc, validator) : [];
+  }
+
+  /**
+   * Get the value of a document's type field, per the `typeField` option.
+   * @param doc Document whose type to get.
+   * @returns The type, or undefined if the field isn't a string.
+   */
+  private getType(doc: DocType): string | undefined {
+    const type = (doc as Record<string, unknown>)[
+      this.options.typeField ?? "type"
+    ];
+    return typeof type === "string" ? type : undefined;
+  }
+
+  /**
+   * Determine whether a document should be omitted from LiveQuery and LiveDoc
+   * reads, because it fails validation and the `filterInvalidReads` option is
+   * set.
+   * @param doc Document to check.
+   * @returns Whether the document should be omitted.
+   */
+  isFilteredFromReads(doc: DocType): boolean {
+    return !!this.options.filterInvalidReads && this.validate(doc).length > 0;
+  }
+
+  /**
+   * Validate a document before writing it.
+   * @param doc Document to validate.
+   * @returns A ValidationError listing the issues, or undefined if valid.
+   */
+  private checkValidity(doc: DocType): ValidationError | undefined {
+    const issues = this.validate(doc);
+    if (!issues.length) {
+      return undefined;
+    }
+    const details = issues
+      .map(({ path, message }) => (path ? `${path} ${message}` : message))
+      .join(" ");
+    const subject = doc._id ? `Document "${doc._id}"` : "Document";
+    return new ValidationError(
+      `${subject} failed validation: ${details}`,
+      undefined,
+      issues,
+    );
+  }
+
+  /**
+   * Register a conflict resolver for documents of a type, replacing any
+   * existing resolver for that type.
+   * @param type Value of the type field of documents to resolve.
+   * @param resolver Conflict resolver, such as `lastWriterWins("updatedAt")`
+   * or `mergeFields()`, or a custom function.
+   * @returns Function to call to unregister the resolver.
+   */
+  registerConflictResolver(
+    type: string,
+    resolver: ConflictResolver<DocType>,
+  ): () => void {
+    this.conflictResolvers.set(type, resolver);
+    return () => {
+      if (this.conflictResolvers.get(type) === resolver) {
+        this.conflictResolvers.delete(type);
+      }
+    };
+  }
+
+  /**
+   * Resolve a document's conflicting revisions. The revisions (migrated to the
+   * latest schema version, but not passed through onRead middleware, as by
+   * `update()`) are passed to a resolver, whose result is written as the new
+   * winning revision, after which the losing revisions are deleted. If writing
+   * the result fails, the losing revisions are kept. The resolver is the one
+   * passed, or else the one registered for the document's type. Without
+   * either, the content of PouchDB's winning revision is written.
+   * @param docId Id of the document to resolve.
+   * @param resolver Optional conflict resolver to use.
+   * @returns Promise that resolves with the change deleting the losing
+   * revisions, or undefined if there were no conflicts.
+   * @throws {NotFoundError} If the document doesn't exist.
+   * @throws {ValidationError} If the resolved document fails validation.
+   * @throws {ConflictError} If the document changed while being resolved.
+   */
+  async resolveConflicts(
+    docId: PouchDB.Core.DocumentId,
+    resolver?: ConflictResolver<DocType>,
+  ): Promise<ChangesResponseChange<DocType> | undefined> {
+    const winner = await this.pouchDb
+      .get(docId, { conflicts: true })
+      .catch((error) => {
+        throw normalizeError(error);
+      });
+    const conflicts = winner._conflicts ?? [];
+    if (!conflicts.length) {
+      return undefined;
+    }
+
+    const losers = await Promise.all(
+      conflicts.map((rev) => this.pouchDb.get(docId, { rev })),
+    ).catch((error) => {
+      throw normalizeError(error);
+    });
+    const base = await getCommonAncestor(this.pouchDb, docId, [
+      winner._rev,
+      ...conflicts,
+    ]);
+
+    const winnerDoc = { ...winner };
+    delete winnerDoc._conflicts;
+    const revisions = [winnerDoc, ...losers].map((doc) => this.migrate(doc));
+
+    const type = this.getType(revisions[0]);
+    const resolve =
+      resolver ??
+      (type !== undefined ? this.conflictResolvers.get(type) : undefined);
+    const resolvedDoc = resolve
+      ? await resolve(revisions, base && this.migrate(base))
+      : revisions[0];
+
+    // Validate the resolved document before deleting anything.
+    const preparedDoc = await this.prepareForWrite(
+      { ...resolvedDoc, _id: docId, _rev: winner._rev } as DocType &
+        PouchDB.Core.IdMeta,
+      "put",
+    );
+
+    // Write the resolved document over the winning revision first, so that if
+    // the write fails (e.g. because the document changed), no revision has
+    // been lost.
+    const change = await this.writePut(preparedDoc);
+    await this.runAfterWrite(change, "put");
+
+    // Deleting losing revisions doesn't change the winning revision, so wait
+    // for the change no longer listing them as conflicts.
+    const loserRevs = new Set(losers.map(({ _rev }) => _rev));
+    let disconnect: (() => void) | undefined = undefined;
+    const deleted = new Promise<ChangesResponseChange<DocType>>((resolve) => {
+      disconnect = this.onChange((changeEvent) => {
+        const { id, doc } = changeEvent.detail;
+        if (
+          id === docId &&
+          !(doc._conflicts ?? []).some((rev) => loserRevs.has(rev))
+        ) {
+          disconnect?.();
+          resolve(changeEvent.detail);
+        }
+      });
+    });
+    try {
+      const responses = await this.pouchDb
+        .bulkDocs(
+          losers.map(
+            ({ _rev }) => ({ _id: docId, _rev, _deleted: true }) as DocType,
+          ),
+        )
+        .catch((error) => {
+          throw normalizeError(error);
+        });
+      for (const response of responses) {
+        if (!(response as PouchDB.Core.Response).ok) {
+          throw normalizeError(response);
+        }
+      }
+    } catch (error) {
+      disconnect!();
+      throw error;
+    }
+    return deleted;
+  }
+
+  /**
+   * Register a migration which upgrades documents to a schema version,
+   * replacing any existing migration to that version.
+   * @param version Schema version the migration upgrades to.
+   * @param migration Function to upgrade a document from the previous version.
+   * @returns Function to call to unregister the migration.
+   */
+  registerMigration(
+    version: number,
+    migration: MigrationFunction<DocType>,
+  ): () => void {
+    this.migrations.set(version, migration);
+    return () => {
+      if (this.migrations.get(version) === migration) {
+        this.migrations.delete(version);
+      }
+    };
+  }
+
+  /**
+   * Latest schema version, being the highest version of any registered
+   * migration, or 0 if there are none.
+   */
+  get schemaVersion(): number {
+    return Math.max(0, ...this.migrations.keys());
+  }
+
+  /**
+   * Get the schema version of a document.
+   * @param doc Document to check.
+   * @returns The document's version, or undefined if it has none.
+   */
+  private getVersion(doc: DocType): number | undefined {
+    const version = (doc as Record<string, unknown>)[
+      this.options.versionField ?? "schemaVersion"
+    ];
+    return typeof version === "number" ? version : undefined;
+  }
+
+  /**
+   * Migrate a document to the latest schema version by applying, in order,
+   * each migration to a version later than the document's.
+   * @param doc Document to migrate.
+   * @returns The migrated document, or the same document if it's deleted or
+   * already up to date.
+   */
+  migrate<MigrateDocType extends DocType>(doc: MigrateDocType): MigrateDocType {
+    if (doc._deleted) {
+      return doc;
+    }
+
+    const version = this.getVersion(doc) ?? 0;
+    const versions = Array.from(this.migrations.keys())
+      .filter((migrationVersion) => migrationVersion > version)
+      .sort((a, b) => a - b);
+
+    let migratedDoc = doc;
+    for (const migrationVersion of versions) {
+      const migration = this.migrations.get(migrationVersion)!;
+      migratedDoc = {
+        ...(migration({ ...migratedDoc }) as MigrateDocType),
+        [this.options.versionField ?? "schemaVersion"]: migrationVersion,
+        _id: doc._id,
+        _rev: doc._rev,
+      };
+    }
+    return migratedDoc;
+  }
+
+  /**
+   * Prepare a document for writing by setting its schema version to the latest
+   * if it has none, or migrating it if it's outdated.
+   * @param doc Document to be written.
+   * @returns Document at the latest schema version.
+   */
+  private stampVersion<StampDocType extends DocType>(
+    doc: StampDocType,
+  ): StampDocType {
+    if (!this.migrations.size || doc._deleted) {
+      return doc;
+    }
+    if (this.getVersion(doc) === undefined) {
+      return {
+        ...doc,
+        [this.options.versionField ?? "schemaVersion"]: this.schemaVersion,
+      };
+    }
+    return this.migrate(doc);
+  }
+
+  /**
+   * Rewrite all outdated documents at the latest schema version, in batches,
+   * so that stored data converges. Dispatches a MigrationProgressEvent after
+   * each batch. Documents which fail to be rewritten (e.g. due to a conflict)
+   * are counted as failed, and are still migrated when read.
+   * @param batchSize Number of documents to check per batch.
+   * @returns Promise that resolves with the final progress.
+   * @throws {ClosedError} If the HeartDB is closed.
+   */
+  async migrateAll(batchSize = FIND_PAGE_SIZE): Promise<MigrationProgress> {
+    if (this.closed) {
+      throw new ClosedError("HeartDB is closed.");
+    }
+
+    const info = await this.pouchDb.info().catch((error) => {
+      throw normalizeError(error);
+    });
+    const progress: MigrationProgress = {
+      total: info.doc_count,
+      checked: 0,
+      migrated: 0,
+      failed: 0,
+    };
+
+    // Page through documents by id. Since rewriting a document doesn't change
+    // its id, writes don't disturb later pages.
+    let lastId: PouchDB.Core.DocumentId | undefined = undefined;
+    let done = false;
+    while (!done && !this.closed) {
+      const response: PouchDB.Core.AllDocsResponse<DocType> = await this.pouchDb
+        .allDocs({
+          include_docs: true,
+          limit: batchSize,
+          ...(lastId === undefined ? {} : { startkey: lastId, skip: 1 }),
+        })
+        .catch((error) => {
+          throw normalizeError(error);
+        });
+
+      const outdatedDocs: DocType[] = [];
+      for (const row of response.rows) {
+        progress.checked++;
+        const doc = row.doc as (DocType & Existing) | undefined;
+        if (!doc || doc._id.startsWith("_design/")) {
+          continue;
+        }
+        const migratedDoc = this.migrate(doc);
+        if (migratedDoc !== doc) {
+          outdatedDocs.push(migratedDoc);
+        }
+      }
+
+      for (const result of await this.bulkDocs(outdatedDocs)) {
+        if (result.ok) {
+          progress.migrated++;
+        } else {
+          progress.failed++;
+        }
+      }
+
+      if (response.rows.length) {
+        lastId = response.rows[response.rows.length - 1].id;
+      }
+      done = response.rows.length < batchSize;
+
+      if (!this.closed) {
+        this.dispatchEvent(new MigrationProgressEvent({ ...progress }));
+      }
+    }
+
+    return progress;
+  }
+
+  /**
+   * Listen for progress of `migrateAll()`.
+   * @param listener Migration progress event listener to add.
+   * @returns Function to call to unsubscribe.
+   */
+  onMigrationProgress(listener: MigrationProgressEventListener): () => void {
+    return this.addEventListener("migrationprogress", listener);
+  }
+
+  /**
+   * Determine whether a document has been removed, either by deletion or by
+   * having its `softDeleteField` flag set.
+   * @param doc Document to check.
+   * @returns Whether the document has been removed.
+   */
+  isRemoved(doc: Document): boolean {
+    const { softDeleteField } = this.options;
+    return (
+      !!doc._deleted ||
+      (softDeleteField !== undefined &&
+        (doc as Record<string, unknown>)[softDeleteField] === true)
+    );
+  }
+
+  /**
+   * Produce the removed form of an existing document. This is either a copy
+   * with the soft-delete flag set, or a deletion tombstone.
+   * @param doc Existing document to remove.
+   * @returns Document to write in order to remove it.
+   */
+  toRemoved(doc: DocType & Existing): DocType & Existing {
+    const { softDeleteField } = this.options;
+    if (softDeleteField !== undefined) {
+      return { ...doc, [softDeleteField]: true };
+    }
+    return { _id: doc._id, _rev: doc._rev, _deleted: true } as DocType &
+      Existing;
   }
 
   /**
@@ -320,4 +2072,137 @@ export class HeartDB<
   ): LiveDoc<DocType, LiveDocType> {
     return new LiveDoc<DocType, LiveDocType>(this, docId);
   }
+
+  /**
+   * Create an UndoManager which records writes made through this instance.
+   * @param options Optional configuration.
+   * @returns The UndoManager.
+   */
+  undoManager(options?: UndoManagerOptions): UndoManager<DocType> {
+    return new UndoManager(this, options);
+  }
+
+  /**
+   * Get the recorded timeline of changes to a document. Requires the `audit`
+   * option.
+   * @param docId Id of the document.
+   * @returns Promise that resolves with the document's audit entries, oldest
+   * first.
+   * @throws {InvalidStateError} If auditing is not enabled.
+   */
+  async history(docId: PouchDB.Core.DocumentId): Promise<AuditEntry[]> {
+    if (!this.auditLog) {
+      throw new InvalidStateError(
+        "Auditing is not enabled. Set the audit option.",
+      );
+    }
+    return this.auditLog.history(docId);
+  }
+
+  /**
+   * Start replicating this database to and from a remote database. Documents
+   * pulled from the remote are emitted as change events like any other.
+   * @param remote Remote database, or its URL.
+   * @param options PouchDB sync options. Replication is live and retries by
+   * default.
+   * @returns A new Replication instance, which stops replicating when closed.
+   */
+  sync(
+    remote: PouchDB.Database<DocType> | string,
+    options?: PouchDB.Replication.SyncOptions,
+  ): Replication<DocType> {
+    return new Replication<DocType>(this, remote, options);
+  }
+
+  /**
+   * Whether this instance is currently the leader among the contexts sharing
+   * its channel. Reading this starts leader election, if not already started,
+   * so it will be false until an election has been won.
+   */
+  get isLeader(): boolean {
+    return this.startLeaderElection().isLeader;
+  }
+
+  /**
+   * Listen for this instance gaining or losing leadership. Starts leader
+   * election, if not already started.
+   * @param listener Callback function to invoke with whether now leader.
+   * @returns Function to call to unsubscribe.
+   */
+  onLeadershipChange(listener: LeadershipChangeEventListener): () => void {
+    this.startLeaderElection();
+    return this.addEventListener("leadershipchange", listener);
+  }
+
+  /**
+   * Run a task whenever this instance is leader, such that among the contexts
+   * sharing the channel, exactly one runs it at a time. The task is started
+   * when this instance becomes leader, and its cleanup function (if any) is
+   * called when it stops being leader, including when it's closed. Another
+   * context will then take over. Starts leader election, if not already
+   * started. Errors thrown by the task or its cleanup function are dispatched
+   * as error events.
+   * @param task Task to run while leader.
+   * @returns Function to call to stop running the task.
+   */
+  runAsLeader(task: LeaderTask): () => void {
+    let running: Promise<(() => void) | void> | undefined;
+
+    const dispatchError = (error: unknown) => {
+      if (!this.closed) {
+        this.dispatchEvent(new ErrorEvent("error", { error }));
+      }
+    };
+
+    const start = () => {
+      running = Promise.resolve().then(task).catch(dispatchError);
+    };
+
+    const stop = () => {
+      const stopping = running;
+      running = undefined;
+      stopping?.then((cleanup) => cleanup?.()).catch(dispatchError);
+    };
+
+    const disconnect = this.onLeadershipChange((leadershipChangeEvent) => {
+      if (leadershipChangeEvent.detail) {
+        start();
+      } else {
+        stop();
+      }
+    });
+
+    if (this.isLeader) {
+      start();
+    }
+
+    return () => {
+      if (!this.closed) {
+        disconnect();
+      }
+      stop();
+    };
+  }
+
+  /**
+   * Start leader election, if not already started.
+   * @returns The leader election.
+   * @throws {ClosedError} If the HeartDB is closed.
+   */
+  private startLeaderElection(): LeaderElection {
+    if (this.closed) {
+      throw new ClosedError("HeartDB is closed.");
+    }
+    if (!this.leaderElection) {
+      this.leaderElection = new LeaderElection(
+        (message) => this.channel.postMessage(message),
+        (isLeader) => this.dispatchEvent(new LeadershipChangeEvent(isLeader)),
+        this.options.leaderHeartbeatInterval ??
+          DEFAULT_LEADER_HEARTBEAT_INTERVAL,
+        this.instanceId,
+      );
+      this.leaderElection.start();
+    }
+    return this.leaderElection;
+  }
 }
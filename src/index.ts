@@ -6,7 +6,46 @@
  * @fileoverview HeartDB.
  */
 
+export * from "./audit-log";
+export * from "./conflict-resolvers";
+export * from "./errors";
 export * from "./heartdb";
+export * from "./live-aggregate";
 export * from "./live-doc";
 export * from "./live-query";
-export { Docs, Document, Existing } from "./types";
+export * from "./live-view";
+export * from "./replication";
+export * from "./transaction";
+export * from "./transport";
+export * from "./undo-manager";
+export * from "./validation";
+export {
+  AggregateResult,
+  AttachmentMeta,
+  AuditDiff,
+  AuditEntry,
+  BulkDocsResult,
+  ConflictResolver,
+  DocIndices,
+  DocMove,
+  DocMoves,
+  Docs,
+  Document,
+  Existing,
+  LeaderTask,
+  Middleware,
+  MigrationFunction,
+  MigrationProgress,
+  PopulatedFields,
+  ReplicationProgress,
+  RetryPolicy,
+  SchemaDescriptor,
+  SchemaType,
+  Transport,
+  UndoState,
+  ValidationIssue,
+  Validator,
+  ValidatorPredicate,
+  WriteContext,
+  WriteOperation,
+} from "./types";
@@ -0,0 +1,220 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Leader election among HeartDB instances sharing a channel.
+ */
+
+/**
+ * Message exchanged between instances to elect a leader. These are sent over
+ * the same channel as changes, so they're tagged to tell them apart.
+ */
+export interface LeaderMessage {
+  /**
+   * Kind of election message. Leaders send periodic heartbeats, candidates
+   * send claims, and leaders which are closing send a resignation.
+   */
+  leaderElection: "heartbeat" | "claim" | "resign";
+
+  /**
+   * Id of the sending instance.
+   */
+  instanceId: string;
+}
+
+/**
+ * Determine whether a message received on the channel is a leader election
+ * message, as opposed to a change.
+ * @param message Message to check.
+ * @returns Whether the message is a LeaderMessage.
+ */
+export function isLeaderMessage(message: unknown): message is LeaderMessage {
+  return (
+    !!message &&
+    typeof message === "object" &&
+    "leaderElection" in message &&
+    "instanceId" in message
+  );
+}
+
+/**
+ * Generate a random id for an instance taking part in elections.
+ * @returns Random id string.
+ */
+export function createInstanceId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * A LeaderElection elects a single leader among instances which exchange
+ * messages. The leader sends a heartbeat at a regular interval. If followers
+ * don't hear one for three intervals, or the leader resigns, they claim
+ * leadership. A claimant becomes leader if no leader objects and no claimant
+ * with a lower id claims within one interval. Should two leaders ever hear
+ * each other (e.g. after a partition), the one with the higher id steps down.
+ */
+export class LeaderElection {
+  /**
+   * Whether this instance is currently the leader.
+   */
+  isLeader = false;
+
+  /**
+   * Whether this instance has stopped taking part in elections.
+   */
+  private closed = false;
+
+  /**
+   * Timer for claiming leadership if the leader goes quiet.
+   */
+  private leaderTimeout?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Timer for becoming leader after claiming, if uncontested.
+   */
+  private claimTimeout?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Timer for sending heartbeats while leader.
+   */
+  private heartbeatInterval?: ReturnType<typeof setInterval>;
+
+  /**
+   * @param postMessage Function to send a message to other instances.
+   * @param onLeadershipChange Function to call when leadership changes.
+   * @param interval Milliseconds between heartbeats.
+   * @param instanceId Id of this instance. Defaults to a random id.
+   */
+  constructor(
+    private readonly postMessage: (message: LeaderMessage) => void,
+    private readonly onLeadershipChange: (isLeader: boolean) => void,
+    private readonly interval: number,
+    readonly instanceId = createInstanceId(),
+  ) {}
+
+  /**
+   * Start taking part in elections by claiming leadership. Any existing leader
+   * will object with a heartbeat.
+   */
+  start() {
+    this.claim();
+  }
+
+  /**
+   * Stop taking part in elections, resigning if leader so that another
+   * instance can take over immediately.
+   */
+  close() {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    clearTimeout(this.leaderTimeout);
+    clearTimeout(this.claimTimeout);
+    clearInterval(this.heartbeatInterval);
+    if (this.isLeader) {
+      this.send("resign");
+      this.isLeader = false;
+      this.onLeadershipChange(false);
+    }
+  }
+
+  /**
+   * Handle a message from another instance.
+   * @param message Message received.
+   */
+  handleMessage(message: LeaderMessage) {
+    if (this.closed) {
+      return;
+    }
+
+    switch (message.leaderElection) {
+      case "heartbeat":
+        if (!this.isLeader) {
+          // Follow the leader, abandoning any claim of our own.
+          clearTimeout(this.claimTimeout);
+          this.claimTimeout = undefined;
+          this.awaitHeartbeat();
+        } else if (message.instanceId < this.instanceId) {
+          this.stepDown();
+        } else {
+          // Assert leadership, so that the other leader steps down.
+          this.send("heartbeat");
+        }
+        return;
+      case "claim":
+        if (this.isLeader) {
+          // Object to the claim.
+          this.send("heartbeat");
+        } else if (this.claimTimeout && message.instanceId < this.instanceId) {
+          // Defer to the lower claimant.
+          clearTimeout(this.claimTimeout);
+          this.claimTimeout = undefined;
+          this.awaitHeartbeat();
+        }
+        return;
+      case "resign":
+        if (!this.isLeader) {
+          this.claim();
+        }
+        return;
+    }
+  }
+
+  /**
+   * Send a message of the specified kind.
+   * @param kind Kind of election message.
+   */
+  private send(kind: LeaderMessage["leaderElection"]) {
+    this.postMessage({ leaderElection: kind, instanceId: this.instanceId });
+  }
+
+  /**
+   * (Re)start waiting for the leader's next heartbeat, claiming leadership if
+   * none arrives in time.
+   */
+  private awaitHeartbeat() {
+    clearTimeout(this.leaderTimeout);
+    this.leaderTimeout = setTimeout(() => this.claim(), this.interval * 3);
+  }
+
+  /**
+   * Claim leadership, becoming leader if uncontested.
+   */
+  private claim() {
+    if (this.closed || this.isLeader || this.claimTimeout) {
+      return;
+    }
+    clearTimeout(this.leaderTimeout);
+    this.send("claim");
+    this.claimTimeout = setTimeout(() => {
+      this.claimTimeout = undefined;
+      this.becomeLeader();
+    }, this.interval);
+  }
+
+  /**
+   * Become leader and start sending heartbeats.
+   */
+  private becomeLeader() {
+    this.isLeader = true;
+    this.send("heartbeat");
+    this.heartbeatInterval = setInterval(
+      () => this.send("heartbeat"),
+      this.interval,
+    );
+    this.onLeadershipChange(true);
+  }
+
+  /**
+   * Stop being leader, and follow the other leader.
+   */
+  private stepDown() {
+    this.isLeader = false;
+    clearInterval(this.heartbeatInterval);
+    this.heartbeatInterval = undefined;
+    this.awaitHeartbeat();
+    this.onLeadershipChange(false);
+  }
+}
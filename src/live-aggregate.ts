@@ -0,0 +1,463 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Aggregates maintained over the results of a LiveQuery.
+ */
+
+// Internal dependencies.
+import { CloseableEventTarget } from "./closeable-event-target";
+import { getFieldValue } from "./collate";
+import { ValidationError } from "./errors";
+import {
+  AggregateChangeEvent,
+  AggregateChangeEventListener,
+  EnterEvent,
+  ExitEvent,
+  UpdateEvent,
+} from "./events";
+import { LiveQuery } from "./live-query";
+import { AggregateResult, Docs, Document, Existing } from "./types";
+
+/**
+ * Operation computed by a LiveAggregate. Either "count" of documents, or the
+ * "sum", "min", "max" or "avg" of a numeric field.
+ */
+export type AggregateOperation = "count" | "sum" | "min" | "max" | "avg";
+
+/**
+ * Options for constructing a LiveAggregate.
+ */
+export interface LiveAggregateOptions<DocType extends Document = Document> {
+  /**
+   * Operation to compute.
+   */
+  operation: AggregateOperation;
+
+  /**
+   * Field (or dotted path) whose values are aggregated. Required for every
+   * operation except "count". Documents whose value isn't a finite number are
+   * counted, but otherwise ignored.
+   */
+  field?: string;
+
+  /**
+   * Field (or dotted path) by which to group documents, or a function which
+   * returns a document's group key. Documents without a group key are included
+   * in the overall value, but not in any group.
+   */
+  groupBy?: string | ((doc: DocType & Existing) => string | undefined);
+}
+
+/**
+ * What a single document contributes to the aggregate.
+ */
+interface Contribution {
+  /**
+   * Group key, if grouping and the document has one.
+   */
+  group?: string;
+
+  /**
+   * Numeric value of the aggregated field, if any.
+   */
+  value?: number;
+}
+
+/**
+ * Running state of the aggregate over a set of documents.
+ */
+interface AggregateState {
+  /**
+   * Number of documents.
+   */
+  count: number;
+
+  /**
+   * Number of documents with numeric values.
+   */
+  valueCount: number;
+
+  /**
+   * Sum of numeric values.
+   */
+  sum: number;
+
+  /**
+   * Numeric values in ascending order. Only kept for "min" and "max".
+   */
+  sortedValues: number[];
+}
+
+/**
+ * Find the index of the first value in a sorted list which is not less than
+ * the given value.
+ * @param sortedValues Values in ascending order.
+ * @param value Value to search for.
+ * @returns Index at which the value is, or would be inserted.
+ */
+function lowerBound(sortedValues: number[], value: number): number {
+  let low = 0;
+  let high = sortedValues.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (sortedValues[middle] < value) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+/**
+ * A LiveAggregate incrementally maintains an aggregate value, such as a count
+ * or sum, over the documents in a LiveQuery's result set. As documents enter,
+ * update and exit, only their contributions are applied, so the aggregate is
+ * never recomputed from all documents.
+ *
+ * Usage:
+ *
+ * ```
+ *   const liveQuery = new LiveQuery(heartDb);
+ *   await liveQuery.setQuery({ selector: { type: "task" } });
+ *
+ *   // Count tasks, grouped by status.
+ *   const liveAggregate = new LiveAggregate(liveQuery, {
+ *     operation: "count",
+ *     groupBy: "status",
+ *   });
+ *
+ *   liveAggregate.onAggregateChange((aggregateChangeEvent) => {
+ *     const { value, groups } = aggregateChangeEvent.detail;
+ *     // ...show `value` tasks, of which `groups.open` are open...
+ *   });
+ *
+ *   // Stop following the LiveQuery. Closing the LiveQuery also closes this.
+ *   liveAggregate.close();
+ * ```
+ *
+ * Events are dispatched at most once per change to the LiveQuery (or batch of
+ * changes, if the LiveQuery batches), and only if the result changed.
+ *
+ * @emits aggregatechange When the aggregate result changes.
+ * @template DocType Type of document in the HeartDB.
+ * @template LiveQueryDocType Type of document returned by the LiveQuery.
+ */
+export class LiveAggregate<
+  DocType extends Document = Document,
+  LiveQueryDocType extends DocType = DocType,
+> extends CloseableEventTarget {
+  /**
+   * LiveQuery whose result set is aggregated.
+   */
+  readonly liveQuery: LiveQuery<DocType, LiveQueryDocType>;
+
+  /**
+   * Options this instance was configured with.
+   */
+  readonly options: LiveAggregateOptions<LiveQueryDocType>;
+
+  /**
+   * Current aggregate result.
+   */
+  result: AggregateResult = { value: undefined, groups: {} };
+
+  /**
+   * Disconnect function for LiveQuery events (when connected).
+   */
+  disconnect?: () => void;
+
+  /**
+   * Contributions of documents in the result set, keyed by id.
+   */
+  private readonly contributions = new Map<
+    PouchDB.Core.DocumentId,
+    Contribution
+  >();
+
+  /**
+   * State over all documents.
+   */
+  private readonly totalState = this.createState();
+
+  /**
+   * State by group key.
+   */
+  private readonly groupStates = new Map<string, AggregateState>();
+
+  /**
+   * @param liveQuery LiveQuery whose result set to aggregate.
+   * @param options Operation to compute, and optionally how to group.
+   * @throws {ValidationError} If the operation requires a field, but none is
+   * specified.
+   */
+  constructor(
+    liveQuery: LiveQuery<DocType, LiveQueryDocType>,
+    options: LiveAggregateOptions<LiveQueryDocType>,
+  ) {
+    super();
+    if (options.operation !== "count" && options.field === undefined) {
+      throw new ValidationError(
+        `Aggregate operation "${options.operation}" requires a field.`,
+      );
+    }
+    this.liveQuery = liveQuery;
+    this.options = options;
+
+    // Start from the current result set, then follow its changes.
+    for (const doc of Object.values(liveQuery.docs)) {
+      this.addContribution(doc);
+    }
+    this.result = this.computeResult();
+
+    const disconnects = [
+      liveQuery.onEnter((enterEvent: EnterEvent<LiveQueryDocType>) => {
+        this.applyDocs(enterEvent.detail);
+      }),
+      liveQuery.onUpdate((updateEvent: UpdateEvent<LiveQueryDocType>) => {
+        this.applyDocs(updateEvent.detail);
+      }),
+      liveQuery.onExit((exitEvent: ExitEvent<LiveQueryDocType>) => {
+        for (const id in exitEvent.detail) {
+          this.removeContribution(id);
+        }
+      }),
+      liveQuery.onAfterChange(() => this.updateResult()),
+      liveQuery.onClose(() => this.close()),
+    ];
+    this.disconnect = () => {
+      for (const disconnect of disconnects) {
+        disconnect();
+      }
+    };
+  }
+
+  override close() {
+    if (this.closed) {
+      return;
+    }
+    // A closed LiveQuery has already removed its listeners.
+    if (!this.liveQuery.closed) {
+      this.disconnect?.call(null);
+    }
+    this.disconnect = undefined;
+    super.close();
+  }
+
+  /**
+   * Aggregate value over all documents.
+   */
+  get value(): number | undefined {
+    return this.result.value;
+  }
+
+  /**
+   * Aggregate values by group key, if grouping.
+   */
+  get groups(): Record<string, number | undefined> {
+    return this.result.groups;
+  }
+
+  /**
+   * Listen for changes to the aggregate result.
+   * @param listener Aggregate change event listener to add.
+   * @returns Disconnect function to unsubscribe the listener.
+   */
+  onAggregateChange(listener: AggregateChangeEventListener): () => void {
+    return this.addEventListener("aggregatechange", listener);
+  }
+
+  /**
+   * Replace the contributions of entering or updating documents.
+   * @param docs Documents which entered or updated.
+   */
+  private applyDocs(docs: Docs<LiveQueryDocType>) {
+    for (const id in docs) {
+      this.removeContribution(id);
+      this.addContribution(docs[id]);
+    }
+  }
+
+  /**
+   * Add a document's contribution to the aggregate.
+   * @param doc Document in the result set.
+   */
+  private addContribution(doc: LiveQueryDocType & Existing) {
+    const contribution = this.getContribution(doc);
+    this.contributions.set(doc._id, contribution);
+    this.addToState(this.totalState, contribution.value);
+    if (contribution.group !== undefined) {
+      let groupState = this.groupStates.get(contribution.group);
+      if (!groupState) {
+        groupState = this.createState();
+        this.groupStates.set(contribution.group, groupState);
+      }
+      this.addToState(groupState, contribution.value);
+    }
+  }
+
+  /**
+   * Remove a document's contribution from the aggregate, if it has one.
+   * @param docId Id of the document.
+   */
+  private removeContribution(docId: PouchDB.Core.DocumentId) {
+    const contribution = this.contributions.get(docId);
+    if (!contribution) {
+      return;
+    }
+    this.contributions.delete(docId);
+    this.removeFromState(this.totalState, contribution.value);
+    if (contribution.group !== undefined) {
+      const groupState = this.groupStates.get(contribution.group)!;
+      this.removeFromState(groupState, contribution.value);
+      if (!groupState.count) {
+        this.groupStates.delete(contribution.group);
+      }
+    }
+  }
+
+  /**
+   * Determine what a document contributes to the aggregate.
+   * @param doc Document in the result set.
+   * @returns The document's group key and numeric value.
+   */
+  private getContribution(doc: LiveQueryDocType & Existing): Contribution {
+    const { field, groupBy } = this.options;
+    const contribution: Contribution = {};
+
+    if (field !== undefined) {
+      const value = getFieldValue(doc, field);
+      if (typeof value === "number" && isFinite(value)) {
+        contribution.value = value;
+      }
+    }
+
+    const group =
+      typeof groupBy === "function"
+        ? groupBy(doc)
+        : groupBy !== undefined
+          ? getFieldValue(doc, groupBy)
+          : undefined;
+    if (group !== undefined && group !== null) {
+      contribution.group = String(group);
+    }
+
+    return contribution;
+  }
+
+  /**
+   * Create an empty aggregate state.
+   * @returns State with no documents.
+   */
+  private createState(): AggregateState {
+    return { count: 0, valueCount: 0, sum: 0, sortedValues: [] };
+  }
+
+  /**
+   * Add a document to an aggregate state.
+   * @param state State to update.
+   * @param value Numeric value of the document, if any.
+   */
+  private addToState(state: AggregateState, value: number | undefined) {
+    state.count++;
+    if (value === undefined) {
+      return;
+    }
+    state.valueCount++;
+    state.sum += value;
+    if (this.keepsSortedValues()) {
+      state.sortedValues.splice(
+        lowerBound(state.sortedValues, value),
+        0,
+        value,
+      );
+    }
+  }
+
+  /**
+   * Remove a document from an aggregate state.
+   * @param state State to update.
+   * @param value Numeric value of the document, if any.
+   */
+  private removeFromState(state: AggregateState, value: number | undefined) {
+    state.count--;
+    if (value === undefined) {
+      return;
+    }
+    state.valueCount--;
+    // Reset rather than subtract the last value, so that floating point error
+    // doesn't accumulate once the state is empty.
+    state.sum = state.valueCount ? state.sum - value : 0;
+    if (this.keepsSortedValues()) {
+      state.sortedValues.splice(lowerBound(state.sortedValues, value), 1);
+    }
+  }
+
+  /**
+   * Determine whether states must keep their values in order, which is only
+   * needed to find the minimum or maximum.
+   * @returns Whether sorted values are kept.
+   */
+  private keepsSortedValues(): boolean {
+    const { operation } = this.options;
+    return operation === "min" || operation === "max";
+  }
+
+  /**
+   * Compute the value of an aggregate state.
+   * @param state State to compute.
+   * @returns Aggregate value.
+   */
+  private computeValue(state: AggregateState): number | undefined {
+    const { sortedValues } = state;
+    switch (this.options.operation) {
+      case "count":
+        return state.count;
+      case "sum":
+        return state.sum;
+      case "min":
+        return sortedValues[0];
+      case "max":
+        return sortedValues[sortedValues.length - 1];
+      case "avg":
+        return state.valueCount ? state.sum / state.valueCount : undefined;
+    }
+  }
+
+  /**
+   * Compute the current aggregate result.
+   * @returns Aggregate result.
+   */
+  private computeResult(): AggregateResult {
+    const groups: Record<string, number | undefined> = {};
+    for (const [group, groupState] of this.groupStates) {
+      groups[group] = this.computeValue(groupState);
+    }
+    return { value: this.computeValue(this.totalState), groups };
+  }
+
+  /**
+   * Recompute the result from the aggregate states, and dispatch an event if
+   * it changed.
+   */
+  private updateResult() {
+    const result = this.computeResult();
+    const previous = this.result;
+    const groupKeys = Object.keys(result.groups);
+    if (
+      result.value === previous.value &&
+      groupKeys.length === Object.keys(previous.groups).length &&
+      groupKeys.every(
+        (group) =>
+          group in previous.groups &&
+          result.groups[group] === previous.groups[group],
+      )
+    ) {
+      return;
+    }
+    this.result = result;
+    this.dispatchEvent(new AggregateChangeEvent(result));
+  }
+}
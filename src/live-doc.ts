@@ -8,9 +8,27 @@
 
 // Internal dependencies.
 import { CloseableEventTarget } from "./closeable-event-target";
-import { SetEvent, SetEventListener } from "./events";
+import { ClosedError } from "./errors";
+import {
+  AttachmentChangeEvent,
+  AttachmentChangeEventListener,
+  ChangeEvent,
+  ConflictEvent,
+  ConflictEventListener,
+  PendingChangeEvent,
+  SetEvent,
+  SetEventListener,
+} from "./events";
 import { HeartDB } from "./heartdb";
-import { Document, Existing } from "./types";
+import { AttachmentMeta, Document, Existing } from "./types";
+
+/**
+ * Attachment contents loaded by a LiveDoc, along with the digest they match.
+ */
+interface LoadedAttachment {
+  digest: string;
+  data: Promise<Blob | Buffer | undefined>;
+}
 
 /**
  * A LiveDoc follows a specific document by its id.
@@ -37,7 +55,18 @@ import { Document, Existing } from "./types";
  *   liveDoc.close();
  * ```
  *
+ * If the document has conflicting revisions (e.g. after replication), they're
+ * listed in `conflicts`, and a conflict event is dispatched. The app may then
+ * resolve them with `heartDb.resolveConflicts(docId)`.
+ *
+ * Metadata of the document's attachments is available as `attachments`, and
+ * their contents are loaded on demand by `getAttachment()`. Loaded contents
+ * are kept until the attachment's digest changes, at which point an
+ * attachmentchange event is dispatched.
+ *
  * @emits set When the document is set.
+ * @emits conflict When the document's conflicting revisions change, if any.
+ * @emits attachmentchange When attachments are added, changed or removed.
  * @emits error When an error occurs.
  * @template DocType Type of document in the HeartDB.
  * @template LiveDocType Type of document in the LiveDoc.
@@ -61,11 +90,24 @@ export class LiveDoc<
    */
   doc?: (LiveDocType & Existing) | undefined;
 
+  /**
+   * Revisions conflicting with the document's winning revision, if any.
+   */
+  conflicts: PouchDB.Core.RevisionId[] = [];
+
   /**
    * Disconnect function for HeartDB changes feed (when connected).
    */
   disconnect?: () => void;
 
+  /**
+   * Loaded attachment contents, keyed by attachment id.
+   */
+  private readonly loadedAttachments = new Map<
+    PouchDB.Core.AttachmentId,
+    LoadedAttachment
+  >();
+
   /**
    * @param heartDb HeartDB instance to use for communication.
    * @param docId Document ID to follow.
@@ -75,25 +117,101 @@ export class LiveDoc<
     this.heartDb = heartDb;
     this.docId = docId;
 
-    // Subscribe to changes feed.
-    this.disconnect = this.heartDb.onChange<LiveDocType>((changeEvent) => {
+    // Subscribe to changes feed, and to pending changes from optimistic
+    // writes.
+    const changeListener = (
+      changeEvent: ChangeEvent<LiveDocType> | PendingChangeEvent<LiveDocType>,
+    ) => {
       const { id, doc, deleted } = changeEvent.detail;
       if (id === docId) {
-        this.setDoc(deleted ? undefined : doc);
+        const migratedDoc = deleted ? undefined : this.heartDb.readDoc(doc);
+        this.setDoc(this.isFiltered(migratedDoc) ? undefined : migratedDoc);
       }
-    });
+    };
+    const changeDisconnect = this.heartDb.onChange<LiveDocType>(changeListener);
+    const pendingChangeDisconnect =
+      this.heartDb.onPendingChange<LiveDocType>(changeListener);
+    this.disconnect = () => {
+      changeDisconnect();
+      pendingChangeDisconnect();
+    };
 
     // Set the initial document value.
     this.heartDb
       .get<LiveDocType>(docId)
       .then((doc) => {
-        this.setDoc(doc);
+        this.setDoc(this.isFiltered(doc) ? undefined : doc);
       })
       .catch((error) => {
         this.dispatchEvent(new ErrorEvent("error", { error }));
       });
   }
 
+  /**
+   * Whether the document is the pending overlay of an optimistic write which
+   * hasn't yet settled.
+   */
+  get pending(): boolean {
+    return !!this.doc && this.heartDb.isPending(this.doc);
+  }
+
+  /**
+   * Metadata of the document's attachments, keyed by attachment id.
+   */
+  get attachments(): Record<PouchDB.Core.AttachmentId, AttachmentMeta> {
+    return (this.doc?._attachments ?? {}) as Record<
+      PouchDB.Core.AttachmentId,
+      AttachmentMeta
+    >;
+  }
+
+  /**
+   * Get the contents of one of the document's attachments, loading them if
+   * they haven't been loaded since the attachment last changed.
+   * @param attachmentId Id of the attachment.
+   * @returns Promise that resolves with the contents (a Blob in browsers, or a
+   * Buffer in Node), or undefined if there's no such attachment.
+   */
+  getAttachment(
+    attachmentId: PouchDB.Core.AttachmentId,
+  ): Promise<Blob | Buffer | undefined> {
+    const meta = this.attachments[attachmentId];
+    if (!meta) {
+      return Promise.resolve(undefined);
+    }
+
+    let loaded = this.loadedAttachments.get(attachmentId);
+    if (!loaded || loaded.digest !== meta.digest) {
+      // Load the revision whose metadata is known, unless it's pending.
+      const rev =
+        this.doc && !this.heartDb.isPending(this.doc)
+          ? this.doc._rev
+          : undefined;
+      const attachment: LoadedAttachment = {
+        digest: meta.digest,
+        data: this.heartDb.getAttachment(this.docId, attachmentId, rev),
+      };
+      this.loadedAttachments.set(attachmentId, attachment);
+
+      // Don't keep failures, so that loading may be retried.
+      attachment.data.catch(() => {
+        if (this.loadedAttachments.get(attachmentId) === attachment) {
+          this.loadedAttachments.delete(attachmentId);
+        }
+      });
+      loaded = attachment;
+    }
+    return loaded.data;
+  }
+
+  /**
+   * @param listener AttachmentChangeEvent listener.
+   * @returns Disconnect callback.
+   */
+  onAttachmentChange(listener: AttachmentChangeEventListener): () => void {
+    return this.addEventListener("attachmentchange", listener);
+  }
+
   /**
    * @param listener SetEvent listener.
    * @returns Disconnect callback.
@@ -103,19 +221,66 @@ export class LiveDoc<
   }
 
   /**
-   * Set the document and dispatch a SetEvent.
+   * @param listener ConflictEvent listener.
+   * @returns Disconnect callback.
+   */
+  onConflict(listener: ConflictEventListener): () => void {
+    return this.addEventListener("conflict", listener);
+  }
+
+  /**
+   * Determine whether a document should be hidden because it fails validation
+   * and the HeartDB filters invalid documents from reads.
+   * @param doc Document to check.
+   * @returns Whether the document should be hidden.
+   */
+  private isFiltered(doc: LiveDocType | undefined): boolean {
+    return !!doc && this.heartDb.isFilteredFromReads(doc);
+  }
+
+  /**
+   * Set the document and dispatch a SetEvent, followed by a ConflictEvent if
+   * it has different conflicting revisions than before, and an
+   * AttachmentChangeEvent if any attachments changed.
    * @param doc Document value to set.
-   * @throws {Error} If the LiveDoc is closed.
+   * @throws {ClosedError} If the LiveDoc is closed.
    */
   private setDoc(doc: (LiveDocType & Existing) | undefined): void {
     if (this.closed) {
-      throw new Error("LiveDoc is closed.");
+      throw new ClosedError("LiveDoc is closed.");
     }
     if (this.doc === doc) {
       return;
     }
+    const previousAttachments = this.attachments;
     this.dispatchEvent(new SetEvent(doc));
     this.doc = doc;
+
+    const conflicts = doc?._conflicts ?? [];
+    if (conflicts.join() !== this.conflicts.join()) {
+      this.conflicts = conflicts;
+      if (conflicts.length) {
+        this.dispatchEvent(new ConflictEvent(conflicts));
+      }
+    }
+
+    const attachments = this.attachments;
+    const changedAttachmentIds = Array.from(
+      new Set([
+        ...Object.keys(previousAttachments),
+        ...Object.keys(attachments),
+      ]),
+    ).filter(
+      (attachmentId) =>
+        previousAttachments[attachmentId]?.digest !==
+        attachments[attachmentId]?.digest,
+    );
+    if (changedAttachmentIds.length) {
+      for (const attachmentId of changedAttachmentIds) {
+        this.loadedAttachments.delete(attachmentId);
+      }
+      this.dispatchEvent(new AttachmentChangeEvent(changedAttachmentIds));
+    }
   }
 
   /**
@@ -129,6 +294,7 @@ export class LiveDoc<
       this.disconnect();
       this.disconnect = undefined;
     }
+    this.loadedAttachments.clear();
     super.close();
   }
 }
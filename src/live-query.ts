@@ -8,20 +8,178 @@
 
 // Internal dependencies.
 import { CloseableEventTarget } from "./closeable-event-target";
-import { InternalError } from "./errors";
+import { DocComparator, createDocComparator, getFieldValue } from "./collate";
+import { InternalError, InvalidStateError, normalizeError } from "./errors";
 import {
   AfterChangeEvent,
   AfterChangeEventListener,
-  ChangeEventListener,
+  ChangeEvent,
   EnterEvent,
   EnterEventListener,
   ExitEvent,
   ExitEventListener,
+  PendingChangeEvent,
   UpdateEvent,
   UpdateEventListener,
 } from "./events";
 import { HeartDB } from "./heartdb";
-import { Docs, Document, Existing } from "./types";
+import { LiveView } from "./live-view";
+import { isSupportedSelector, matchesSelector } from "./selector";
+import {
+  DocIndices,
+  DocMoves,
+  Docs,
+  Document,
+  Existing,
+  PopulatedFields,
+} from "./types";
+
+/**
+ * Number of documents to request per find() when filling a window with
+ * documents which may be filtered from reads.
+ */
+const WINDOW_PAGE_SIZE = 100;
+
+/**
+ * Determine whether a query is windowed, meaning that it specifies a limit or
+ * skip, so the result set is only a portion of the matching documents.
+ * @param query Query to check.
+ * @returns Whether the query is windowed.
+ */
+function isWindowed(query: PouchDB.Find.FindRequest<Document>): boolean {
+  return query.limit !== undefined || !!query.skip;
+}
+
+/**
+ * Map documents in a list to their indices, keyed by id.
+ * @param docs List of documents.
+ * @returns Record of indices by document id.
+ */
+function indexById(docs: Existing[]): DocIndices {
+  const indices: DocIndices = {};
+  docs.forEach((doc, index) => {
+    indices[doc._id] = index;
+  });
+  return indices;
+}
+
+/**
+ * Get the ids referenced by a relation field of a document.
+ * @param doc Document with the relation field.
+ * @param field Relation field name or dotted path.
+ * @returns Referenced ids. Values which aren't ids are ignored.
+ */
+function getReferencedIds(doc: Existing, field: string): string[] {
+  const value = getFieldValue(doc, field);
+  if (Array.isArray(value)) {
+    return value.filter((id): id is string => typeof id === "string");
+  }
+  return typeof value === "string" ? [value] : [];
+}
+
+/**
+ * Get the generation (numeric prefix) of a document's revision.
+ * @param doc Document with revision.
+ * @returns Revision generation, or NaN if the doc has no revision (e.g. when
+ * the query's fields omit it).
+ */
+function getRevGeneration(doc: Partial<Existing>): number {
+  return parseInt(doc._rev ?? "", 10);
+}
+
+/**
+ * Timing of batched change processing. Either "microtask" to coalesce changes
+ * arriving in the same task, "animationFrame" to coalesce changes until the
+ * next animation frame, or a number of milliseconds.
+ */
+export type LiveQueryBatchTiming = "microtask" | "animationFrame" | number;
+
+/**
+ * Options for constructing a LiveQuery.
+ */
+export interface LiveQueryOptions {
+  /**
+   * When set, changes arriving within the same microtask, animation frame or
+   * window of milliseconds are coalesced and dispatched as a single set of
+   * enter/update/exit events followed by one afterchange event. By default,
+   * each change is processed as it arrives.
+   */
+  batch?: LiveQueryBatchTiming;
+
+  /**
+   * Relation fields (or dotted paths) of result docs, holding the id of a
+   * referenced document or an array of ids. Referenced documents are followed
+   * and made available in `populated`.
+   */
+  populate?: string[];
+}
+
+/**
+ * Changes queued for processing as a batch.
+ */
+interface PendingBatch<DocType extends Document> {
+  /**
+   * Query which was current when the batch was started.
+   */
+  query: PouchDB.Find.FindRequest<DocType>;
+
+  /**
+   * Changed docs known to match the query, keyed by id.
+   */
+  incomingDocs: Docs<DocType>;
+
+  /**
+   * Changed docs known to no longer match the query, keyed by id.
+   */
+  outgoingDocs: Docs<DocType>;
+
+  /**
+   * Whether the query's window must be refreshed.
+   */
+  refresh: boolean;
+
+  /**
+   * Cancel the scheduled processing of the batch.
+   */
+  cancel: () => void;
+}
+
+/**
+ * Schedule a callback to run after the batch timing has elapsed. Where
+ * animation frames are unavailable (e.g. in a worker), the callback runs after
+ * a zero-delay timeout instead.
+ * @param timing Batch timing.
+ * @param callback Function to call.
+ * @returns Function to cancel the scheduled call.
+ */
+function scheduleBatch(
+  timing: LiveQueryBatchTiming,
+  callback: () => void,
+): () => void {
+  if (timing === "microtask") {
+    let cancelled = false;
+    Promise.resolve().then(() => {
+      if (!cancelled) {
+        callback();
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }
+
+  const { requestAnimationFrame, cancelAnimationFrame } = globalThis as {
+    requestAnimationFrame?: (callback: () => void) => number;
+    cancelAnimationFrame?: (handle: number) => void;
+  };
+  if (timing === "animationFrame" && requestAnimationFrame) {
+    const handle = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame?.(handle);
+  }
+
+  const timeout = setTimeout(callback, typeof timing === "number" ? timing : 0);
+  return () => clearTimeout(timeout);
+}
 
 /**
  * A LiveQuery follows a query and tracks documents that enter, update, or exit.
@@ -57,10 +215,53 @@ import { Docs, Document, Existing } from "./types";
  *   liveQuery.close();
  * ```
  *
+ * Matching documents are available both as a record keyed by id (`docs`) and as
+ * an array ordered according to the query's sort (`orderedDocs`). Enter, update
+ * and exit events carry the positions of affected documents in that array.
+ * Exit indices refer to positions before the change, enter indices to
+ * positions after, and update moves from before to after. So a list UI can
+ * apply exits in descending index order, then entries in ascending order.
+ * Changing the query's sort reorders the remaining docs, which is signalled
+ * only by an afterchange event.
+ *
+ * By default, each change is processed as it arrives. To reduce re-renders
+ * when many docs change at once (e.g. during an import), pass the `batch`
+ * option to coalesce changes into a single set of events:
+ *
+ * ```
+ *   const liveQuery = new LiveQuery(heartDb, { batch: "animationFrame" });
+ * ```
+ *
+ * If the HeartDB is optimistic, documents being written appear immediately as
+ * pending overlays (detected with `heartDb.isPending(doc)`), which are updated
+ * once their writes settle, or exit or revert if they fail. Overlays are shown
+ * only by unwindowed queries whose selectors can be matched in memory.
+ *
+ * Relation fields which reference other documents by id can be declared with
+ * the `populate` option. The referenced documents are then loaded and followed
+ * for as long as any result doc references them, and are available by result
+ * doc id and field in `populated`. When a referenced document is loaded or
+ * changes, an update event is dispatched for the docs which reference it:
+ *
+ * ```
+ *   const liveQuery = new LiveQuery(heartDb, { populate: ["projectId"] });
+ *   liveQuery.onUpdate((updateEvent) => {
+ *     for (const id in updateEvent.detail) {
+ *       const project = liveQuery.populated[id].projectId;
+ *       // ...
+ *     }
+ *   });
+ * ```
+ *
+ * Derived views, which follow the results incrementally, can be created with
+ * `filter()` and `map()`, or by combining LiveQueries with `union()`,
+ * `intersection()` and `difference()`. See LiveView for details.
+ *
  * @emits enter When a document enters the result set.
  * @emits update When a document updates in the result set.
  * @emits exit When a document exits the result set.
  * @emits afterchange After any enter/update/exit events.
+ * @emits error When a batch of changes fails to process.
  * @template DocType Type of document in the HeartDB.
  * @template LiveQueryDocType Type of document returned by query.
  * @see https://pouchdb.com/guides/mango-queries.html
@@ -84,21 +285,109 @@ export class LiveQuery<
    */
   readonly docs: Docs<LiveQueryDocType> = {};
 
+  /**
+   * Query-matching documents, ordered according to the query's sort (or by
+   * _id if unsorted). Contains the same documents as `docs`.
+   */
+  readonly orderedDocs: (LiveQueryDocType & Existing)[] = [];
+
+  /**
+   * Comparator for ordering documents according to the current query.
+   */
+  private compareDocs: DocComparator<LiveQueryDocType> = createDocComparator();
+
   /**
    * Disconnect function for HeartDB changes feed (when connected).
    */
   disconnect?: () => void;
 
+  /**
+   * Number of window refreshes requested, used to discard stale results.
+   */
+  private windowRefreshCount = 0;
+
+  /**
+   * Changes awaiting processing, when batching.
+   */
+  private pendingBatch?: PendingBatch<LiveQueryDocType>;
+
+  /**
+   * Documents referenced by result docs' relation fields, keyed by result doc
+   * id. Only kept when the `populate` option is set.
+   */
+  readonly populated: Record<
+    PouchDB.Core.DocumentId,
+    PopulatedFields<DocType>
+  > = {};
+
+  /**
+   * Loaded referenced documents (or undefined if missing), keyed by id.
+   */
+  private readonly relatedDocs = new Map<
+    PouchDB.Core.DocumentId,
+    (DocType & Existing) | undefined
+  >();
+
+  /**
+   * Ids of result docs referencing each referenced document.
+   */
+  private readonly referrers = new Map<
+    PouchDB.Core.DocumentId,
+    Set<PouchDB.Core.DocumentId>
+  >();
+
+  /**
+   * Ids of documents referenced by each result doc.
+   */
+  private readonly references = new Map<
+    PouchDB.Core.DocumentId,
+    Set<PouchDB.Core.DocumentId>
+  >();
+
+  /**
+   * Disconnect function for following changes to referenced documents.
+   */
+  private disconnectRelations?: () => void;
+
   /**
    * @param heartDb HeartDB instance to use for communication.
+   * @param options Optional settings, such as change batching.
    */
-  constructor(heartDb: HeartDB<DocType>) {
+  constructor(
+    heartDb: HeartDB<DocType>,
+    readonly options: LiveQueryOptions = {},
+  ) {
     super();
     this.heartDb = heartDb;
     const closeDisconnect = heartDb.addEventListener("close", () => {
       this.close();
       closeDisconnect();
     });
+
+    // Follow changes (and pending changes) to referenced documents.
+    if (options.populate?.length) {
+      const relatedChangeListener = (
+        changeEvent: ChangeEvent<DocType> | PendingChangeEvent<DocType>,
+      ) => {
+        const { id, deleted, doc } = changeEvent.detail;
+        if (this.referrers.has(id)) {
+          this.setRelatedDoc(
+            id,
+            deleted
+              ? undefined
+              : this.heartDb.readDoc(doc as DocType & Existing),
+          );
+        }
+      };
+      const changeDisconnect = heartDb.onChange(relatedChangeListener);
+      const pendingChangeDisconnect = heartDb.onPendingChange(
+        relatedChangeListener,
+      );
+      this.disconnectRelations = () => {
+        changeDisconnect();
+        pendingChangeDisconnect();
+      };
+    }
   }
 
   override close() {
@@ -107,18 +396,28 @@ export class LiveQuery<
     }
     this.disconnect?.call(null);
     this.disconnect = undefined;
+    this.disconnectRelations?.call(null);
+    this.disconnectRelations = undefined;
+    this.cancelPendingBatch();
     super.close();
   }
 
   /**
    * Set the query to follow. This is an asynchronous function which will return
    * when all existing matching docs have been added to the result set. After
-   * return changed docs will trigger additional events.
+   * return changed docs will trigger additional events. Changes which occur
+   * while the existing docs are being found are reconciled before returning.
+   *
+   * If the query specifies a `limit` or `skip`, then the result set is a live
+   * window onto the sorted matching documents. As documents change, the window
+   * is refreshed so that it always holds the documents which the query would
+   * currently return. For example, when a document exits, the next matching
+   * document enters to take its place. Note that when skipping, every change
+   * causes the window to be refreshed.
    *
-   * Note that PouchDB follows CouchDB's default limit of 25 results per query.
-   * So if your query should return more than 25 documenets, and you don't
-   * specify a limit, then it will take multiple requsests to fetch all the
-   * documents.
+   * Otherwise, all matching documents are found. Note that CouchDB applies a
+   * default limit of 25 results per query. So if your query should return more
+   * documents than that, it may take multiple requests to fetch them all.
    * @param query Query to find and follow.
    */
   async setQuery(query?: PouchDB.Find.FindRequest<LiveQueryDocType>) {
@@ -127,11 +426,14 @@ export class LiveQuery<
       return;
     }
 
-    // Disconnect any existing onChange() listener.
+    // Disconnect any existing onChange() listener, and discard any changes it
+    // queued for processing.
     this.disconnect?.call(null);
     this.disconnect = undefined;
+    this.cancelPendingBatch();
 
     this.query = query;
+    this.compareDocs = createDocComparator(query?.sort);
 
     // If the query has been unset, then replace all docs with none.
     if (!query) {
@@ -139,135 +441,463 @@ export class LiveQuery<
       return;
     }
 
-    // Make repeated requests until all existing matching docs have been found.
-    let done = false;
-    let requestCount = 0;
-    let skip = query.skip ?? 0;
-    while (!done) {
-      requestCount++;
-      const results = await this.heartDb.pouchDb.find({ ...query, skip });
+    // Subscribe to HeartDB changes (and pending changes from optimistic
+    // writes) before finding existing docs, so that changes which occur while
+    // finding are not missed. Until the initial results have been processed,
+    // change events are queued.
+    const queryListener = this.createQueryListener(query);
+    const changeQueue: (ChangeEvent<DocType> | PendingChangeEvent<DocType>)[] =
+      [];
+    let reconciled = false;
+    const changeListener = (
+      changeEvent: ChangeEvent<DocType> | PendingChangeEvent<DocType>,
+    ) => {
+      if (!reconciled) {
+        changeQueue.push(changeEvent);
+        return;
+      }
+      return queryListener(changeEvent);
+    };
+    const changeDisconnect = this.heartDb.onChange(changeListener);
+    const pendingChangeDisconnect =
+      this.heartDb.onPendingChange(changeListener);
+    this.disconnect = () => {
+      changeDisconnect();
+      pendingChangeDisconnect();
+    };
+
+    if (isWindowed(query)) {
+      // Find the docs within the window in a single request.
+      await this.refreshWindow(query);
+    } else {
+      // Make repeated requests until all existing matching docs have been
+      // found.
+      let done = false;
+      let requestCount = 0;
+      let skip = 0;
+      while (!done) {
+        requestCount++;
+        const results = await this.heartDb.pouchDb
+          .find({ ...query, skip })
+          .catch((error) => {
+            throw normalizeError(error);
+          });
+
+        if (this.closed || this.query !== query) {
+          // Preempted by another call.
+          return;
+        }
+
+        const docs = results.docs as (LiveQueryDocType & Existing)[];
+
+        skip += docs.length;
+
+        // Process this round of docs, replacing if it's the first round.
+        this.processDocs(docs, requestCount === 1);
 
+        // We're done when there were no docs returned.
+        done = !docs.length;
+      }
+    }
+
+    if (this.closed || this.query !== query) {
+      // Preempted by another call.
+      return;
+    }
+
+    // Reconcile queued changes with the initial results, in order. Changes to
+    // docs which are no newer than the found revision are already reflected,
+    // unless the known doc is a pending overlay, which any change supersedes.
+    // Changes continue to be queued until the queue is drained.
+    while (changeQueue.length) {
+      const [changeEvent] = changeQueue.splice(0, 1);
+      const { id, doc } = changeEvent.detail;
+      const knownDoc = this.docs[id];
+      if (
+        knownDoc &&
+        !this.heartDb.isPending(knownDoc) &&
+        getRevGeneration(doc) <= getRevGeneration(knownDoc)
+      ) {
+        continue;
+      }
+      await queryListener(changeEvent);
       if (this.closed || this.query !== query) {
-        // Preempted by another call.
+        // Preempted during reconciliation.
         return;
       }
+    }
+    reconciled = true;
+  }
 
-      const docs = results.docs as (LiveQueryDocType & Existing)[];
+  /**
+   * Set the window of sorted matching documents to follow, keeping the current
+   * query's selector and sort. See `setQuery()` for details.
+   * @param skip Number of matching documents to skip.
+   * @param limit Maximum number of documents in the window.
+   * @throws {InvalidStateError} If no query is set.
+   */
+  async setWindow(skip: number, limit: number) {
+    if (!this.query) {
+      throw new InvalidStateError("Cannot set window without a query.");
+    }
+    await this.setQuery({ ...this.query, skip, limit });
+  }
+
+  /**
+   * Find the documents within a windowed query's window, and replace the
+   * current set of docs with them. If the window is refreshed again before the
+   * find requests complete, then this refresh's results are discarded.
+   *
+   * Soft-deleted documents are excluded by the selector, so that they don't
+   * take up places in the window. Documents filtered from reads can't be, so
+   * when they may be, matching documents are found from the start, a page at
+   * a time, until enough readable documents have been found to fill the
+   * window.
+   * @param query Windowed query to refresh.
+   */
+  private async refreshWindow(
+    query: PouchDB.Find.FindRequest<LiveQueryDocType>,
+  ) {
+    const refreshCount = ++this.windowRefreshCount;
+    const isPreempted = () =>
+      this.closed ||
+      this.query !== query ||
+      this.windowRefreshCount !== refreshCount;
 
-      skip += docs.length;
+    const { softDeleteField, filterInvalidReads } = this.heartDb.options;
+    const selector =
+      softDeleteField === undefined
+        ? query.selector
+        : { $and: [query.selector, { [softDeleteField]: { $ne: true } }] };
 
-      // Process this round of docs, replacing if it's the first round.
-      this.processDocs(docs, requestCount === 1);
+    const find = async (request: PouchDB.Find.FindRequest<LiveQueryDocType>) =>
+      (
+        await this.heartDb.pouchDb
+          .find({ ...request, selector })
+          .catch((error) => {
+            throw normalizeError(error);
+          })
+      ).docs as (LiveQueryDocType & Existing)[];
 
-      // We're done when there were no docs returned, or fewer than the limit.
-      if (!docs.length || (query.limit && docs.length < query.limit)) {
-        done = true;
-        break;
+    if (!filterInvalidReads) {
+      const docs = await find(query);
+      if (!isPreempted()) {
+        this.processDocs(docs, true);
       }
+      return;
     }
 
-    // Subscribe to all HeartDB changes to perform updates.
-    this.disconnect = this.heartDb.onChange(this.createQueryListener(query));
+    const { skip = 0, limit } = query;
+    const end = limit === undefined ? undefined : skip + limit;
+    const readableDocs: (LiveQueryDocType & Existing)[] = [];
+    let findSkip = 0;
+    let done = false;
+    while (!done) {
+      const docs = await find({
+        ...query,
+        skip: findSkip,
+        limit: WINDOW_PAGE_SIZE,
+      });
+      if (isPreempted()) {
+        return;
+      }
+
+      findSkip += docs.length;
+      for (const doc of docs) {
+        if (!this.isOmitted(doc)) {
+          readableDocs.push(doc);
+        }
+      }
+
+      done =
+        docs.length < WINDOW_PAGE_SIZE ||
+        (end !== undefined && readableDocs.length >= end);
+    }
+
+    this.processDocs(readableDocs.slice(skip, end), true);
   }
 
   /**
    * Wrap a query object with a change event listener that will update the local
-   * docs set as changes occur.
+   * docs set as changes occur. Pending changes from optimistic writes are
+   * applied only when the query is unwindowed and its selector can be matched
+   * in memory, since otherwise matching relies on find(), which knows nothing
+   * of them.
    * @param query Query for which to create a change listener.
-   * @returns Change event listener.
+   * @returns Change event listener, which also accepts pending change events.
    */
   createQueryListener(
     query: PouchDB.Find.FindRequest<LiveQueryDocType>,
-  ): ChangeEventListener<DocType> {
-    return async (changeEvent) => {
+  ): (changeEvent: ChangeEvent<DocType> | PendingChangeEvent<DocType>) => void {
+    // Field projections and unsupported operators must be handled by find().
+    const matchInMemory = !query.fields && isSupportedSelector(query.selector);
+
+    return async (
+      changeEvent: ChangeEvent<DocType> | PendingChangeEvent<DocType>,
+    ) => {
       if (this.closed || this.query !== query) {
         // Preepmeted. Should have been disconnected.
         throw new InternalError("Unexpected change event from replaced query");
       }
 
-      const { id, deleted, doc: changedDoc } = changeEvent.detail;
-
-      // If the document is in our results and has been deleted, then we can
-      // process the deletion as is.
-      if (id in this.docs && deleted) {
-        this.dispatchEvent(new ExitEvent({ id: changedDoc }));
-        delete this.docs[id];
-        this.dispatchEvent(new AfterChangeEvent(this.docs));
+      if (
+        changeEvent instanceof PendingChangeEvent &&
+        (isWindowed(query) || !matchInMemory)
+      ) {
         return;
       }
 
-      // Otherwise, we need to attempt to fetch the document using a modified,
-      // id-specific query to see if it matches.
-      const response = await this.heartDb.pouchDb.find({
-        ...query,
-        selector: { ...query.selector, _id: changeEvent.detail.id },
-      });
+      const { id, deleted } = changeEvent.detail;
+      const changedDoc = changeEvent.detail.doc as LiveQueryDocType & Existing;
 
-      // Recheck query is still live.
-      if (this.closed || this.query !== query) {
-        // Preepmeted during find request.
+      // When skipping, any change could shift the window, since the changed
+      // doc may have matched (or now match) before the window. So the window
+      // must be refreshed regardless.
+      if (query.skip) {
+        await this.applyRefresh(query);
         return;
       }
 
-      // If no docs were returned, then the changed document no longer matches
-      // the query and should be removed from the result set.
-      if (!response.docs.length) {
-        this.dispatchEvent(new ExitEvent({ id: changedDoc }));
-        delete this.docs[id];
-        this.dispatchEvent(new AfterChangeEvent(this.docs));
+      // If the document has been deleted (or soft-deleted, or is filtered
+      // from reads), then it cannot match, and we can process the removal as
+      // is. For windowed queries, a removal from the window means the window
+      // must be refreshed.
+      if (deleted || this.isOmitted(changedDoc)) {
+        if (!isWindowed(query)) {
+          this.applyChange(query, changedDoc, false);
+        } else if (id in this.docs) {
+          await this.applyRefresh(query);
+        }
         return;
       }
 
-      // If more than one doc was returned, then something went wrong.
-      if (response.docs.length > 1) {
-        throw new InternalError(
-          "Unexpected multiple doc response to id-specific query",
-        );
-      }
-
-      const responseDoc = response.docs[0] as LiveQueryDocType & Existing;
+      // Otherwise, determine whether the changed doc matches. When possible,
+      // the selector is evaluated in memory, falling back to an id-specific
+      // find() request for selectors which can't be.
+      let matchingDoc: (LiveQueryDocType & Existing) | undefined;
+      if (matchInMemory) {
+        // Like find(), design documents never match.
+        matchingDoc =
+          !id.startsWith("_design/") &&
+          matchesSelector(changedDoc, query.selector)
+            ? changedDoc
+            : undefined;
+      } else {
+        matchingDoc = await this.findMatchingDoc(query, id);
 
-      // If the response doc's id doesn't match the changed doc, then something
-      // went wrong.
-      if (responseDoc._id !== id) {
-        throw new InternalError(
-          "Unexpected mismatched id in response to id-specific query",
-        );
+        // Recheck query is still live.
+        if (this.closed || this.query !== query) {
+          // Preepmeted during find request.
+          return;
+        }
       }
 
-      const existingDoc = this.docs[id];
-
-      // If we don't already have a doc with this id, then it's entering.
-      if (!existingDoc) {
-        this.dispatchEvent(
-          new EnterEvent<LiveQueryDocType>({ [id]: responseDoc }),
-        );
-        this.docs[id] = responseDoc;
-        this.dispatchEvent(new AfterChangeEvent(this.docs));
+      // For windowed queries, a matching doc may displace others from the
+      // window, and a doc leaving the window may be replaced by another. In
+      // either case, refresh the window.
+      if (isWindowed(query)) {
+        if (matchingDoc || id in this.docs) {
+          await this.applyRefresh(query);
+        }
         return;
       }
 
-      // If the response doc's rev matches the existing doc's rev, then there's
-      // nothing to do.
-      if (responseDoc._rev === existingDoc._rev) {
+      // If the doc doesn't match, then it should be removed from the result
+      // set. Otherwise it is either entering, updating or unchanged.
+      if (!matchingDoc) {
+        this.applyChange(query, changedDoc, false);
         return;
       }
+      this.applyChange(query, matchingDoc, true);
+    };
+  }
 
-      // Otherwise, the document has been updated.
-      this.dispatchEvent(
-        new UpdateEvent<LiveQueryDocType>({ [id]: responseDoc }),
+  /**
+   * Apply a change to a single doc which is known to either match or no longer
+   * match the query. When batching, the change is queued for processing with
+   * others in the batch. Later changes to the same doc supersede earlier ones.
+   * @param query Query which the doc was matched against.
+   * @param doc Changed doc.
+   * @param matches Whether the doc matches the query.
+   */
+  private applyChange(
+    query: PouchDB.Find.FindRequest<LiveQueryDocType>,
+    doc: LiveQueryDocType & Existing,
+    matches: boolean,
+  ) {
+    if (this.options.batch === undefined) {
+      if (matches) {
+        this.processDocs([doc], false);
+      } else {
+        this.processDocs([], false, [doc]);
+      }
+      return;
+    }
+
+    const batch = this.getPendingBatch(query);
+    if (matches) {
+      batch.incomingDocs[doc._id] = doc;
+      delete batch.outgoingDocs[doc._id];
+    } else {
+      batch.outgoingDocs[doc._id] = doc;
+      delete batch.incomingDocs[doc._id];
+    }
+  }
+
+  /**
+   * Refresh a windowed query's window. When batching, the refresh is deferred
+   * until the batch is processed, so that it happens only once per batch.
+   * @param query Windowed query to refresh.
+   */
+  private async applyRefresh(
+    query: PouchDB.Find.FindRequest<LiveQueryDocType>,
+  ) {
+    if (this.options.batch === undefined) {
+      await this.refreshWindow(query);
+      return;
+    }
+    this.getPendingBatch(query).refresh = true;
+  }
+
+  /**
+   * Get the pending batch of changes, starting and scheduling a new one if
+   * there isn't one already.
+   * @param query Query for which changes are being batched.
+   * @returns The pending batch.
+   */
+  private getPendingBatch(
+    query: PouchDB.Find.FindRequest<LiveQueryDocType>,
+  ): PendingBatch<LiveQueryDocType> {
+    if (!this.pendingBatch) {
+      const batch: PendingBatch<LiveQueryDocType> = {
+        query,
+        incomingDocs: {},
+        outgoingDocs: {},
+        refresh: false,
+        cancel: () => {},
+      };
+      batch.cancel = scheduleBatch(this.options.batch ?? 0, () => {
+        this.processBatch(batch).catch((error) => {
+          this.dispatchEvent(new ErrorEvent("error", { error }));
+        });
+      });
+      this.pendingBatch = batch;
+    }
+    return this.pendingBatch;
+  }
+
+  /**
+   * Process a batch of changes, dispatching a single set of events for them.
+   * @param batch Batch to process.
+   */
+  private async processBatch(batch: PendingBatch<LiveQueryDocType>) {
+    if (this.pendingBatch !== batch) {
+      // Cancelled.
+      return;
+    }
+    this.pendingBatch = undefined;
+
+    if (this.closed || this.query !== batch.query) {
+      // Preempted. Should have been cancelled.
+      return;
+    }
+
+    // A window refresh replaces all docs, so individual changes are moot.
+    if (batch.refresh) {
+      await this.refreshWindow(batch.query);
+      return;
+    }
+
+    this.processDocs(
+      Object.values(batch.incomingDocs),
+      false,
+      Object.values(batch.outgoingDocs),
+    );
+  }
+
+  /**
+   * Cancel processing of the pending batch of changes, if any.
+   */
+  private cancelPendingBatch() {
+    this.pendingBatch?.cancel();
+    this.pendingBatch = undefined;
+  }
+
+  /**
+   * Fetch a document using a modified, id-specific query to see if it matches.
+   * The window, if any, is omitted since it applies to the whole result set.
+   * @param query Query to match.
+   * @param docId Id of the document to fetch.
+   * @returns Promise that resolves to the matching doc, or undefined if the
+   * document doesn't match.
+   * @throws {InternalError} If the response is inconsistent with the request.
+   */
+  private async findMatchingDoc(
+    query: PouchDB.Find.FindRequest<LiveQueryDocType>,
+    docId: PouchDB.Core.DocumentId,
+  ): Promise<(LiveQueryDocType & Existing) | undefined> {
+    const unwindowedQuery = { ...query };
+    delete unwindowedQuery.skip;
+    delete unwindowedQuery.limit;
+    const response = await this.heartDb.pouchDb
+      .find({
+        ...unwindowedQuery,
+        selector: { ...query.selector, _id: docId },
+      })
+      .catch((error) => {
+        throw normalizeError(error);
+      });
+
+    // If no docs were returned, then the document doesn't match.
+    if (!response.docs.length) {
+      return undefined;
+    }
+
+    // If more than one doc was returned, then something went wrong.
+    if (response.docs.length > 1) {
+      throw new InternalError(
+        "Unexpected multiple doc response to id-specific query",
       );
-      this.docs[id] = responseDoc;
-      this.dispatchEvent(new AfterChangeEvent(this.docs));
-    };
+    }
+
+    const responseDoc = response.docs[0] as LiveQueryDocType & Existing;
+
+    // If the response doc's id doesn't match the changed doc, then something
+    // went wrong.
+    if (responseDoc._id !== docId) {
+      throw new InternalError(
+        "Unexpected mismatched id in response to id-specific query",
+      );
+    }
+
+    return responseDoc;
+  }
+
+  /**
+   * Determine whether a document should be omitted from the results
+   * regardless of the selector, because it has been removed or is filtered
+   * from reads by HeartDB validation.
+   * @param doc Document to check.
+   * @returns Whether the document should be omitted.
+   */
+  private isOmitted(doc: DocType & Existing): boolean {
+    return (
+      this.heartDb.isRemoved(doc) ||
+      this.heartDb.isFilteredFromReads(this.heartDb.readDoc(doc))
+    );
   }
 
   /**
    * Replace the current set of docs with the provided replacement array.
    * @param incomingDocs List of docs to replace the current set.
    * @param replace Whether to replace the current set of docs.
+   * @param outgoingDocs List of docs known to no longer match the query.
    */
-  processDocs(incomingDocs: (LiveQueryDocType & Existing)[], replace: boolean) {
+  processDocs(
+    incomingDocs: (LiveQueryDocType & Existing)[],
+    replace: boolean,
+    outgoingDocs: (LiveQueryDocType & Existing)[] = [],
+  ) {
     const enterDocs: Docs<LiveQueryDocType> = {};
     let enterCount = 0;
 
@@ -279,11 +909,13 @@ export class LiveQuery<
 
     const unchangedDocs: Docs<LiveQueryDocType> = {};
 
-    // Categorize incoming documents as enter/update/exit/unchanged.
-    for (const doc of incomingDocs) {
+    // Categorize incoming documents as enter/update/exit/unchanged. Documents
+    // are first prepared for reading (e.g. migrated to the latest version).
+    for (const incomingDoc of incomingDocs) {
+      const doc = this.heartDb.readDoc(incomingDoc);
       if (!(doc._id in this.docs)) {
-        // Ignore deleted documents that we don't already know about.
-        if (doc._deleted) {
+        // Ignore removed documents that we don't already know about.
+        if (this.isOmitted(doc)) {
           continue;
         }
 
@@ -293,8 +925,9 @@ export class LiveQuery<
         continue;
       }
 
-      // Existing documents with _deleted set should be added to the exit set.
-      if (doc._deleted) {
+      // Existing documents which have been removed (deleted or soft-deleted)
+      // or which are filtered from reads should be added to the exit set.
+      if (this.isOmitted(doc)) {
         exitDocs[doc._id] = doc;
         exitCount++;
         continue;
@@ -311,6 +944,14 @@ export class LiveQuery<
       unchangedDocs[doc._id] = doc;
     }
 
+    // Known documents which no longer match should be added to the exit set.
+    for (const doc of outgoingDocs) {
+      if (doc._id in this.docs && !(doc._id in exitDocs)) {
+        exitDocs[doc._id] = doc;
+        exitCount++;
+      }
+    }
+
     // If we're performing a replacement, then any known documents that are not
     // update/unchanged should be added to the exit set for removal.
     if (replace) {
@@ -322,20 +963,67 @@ export class LiveQuery<
       }
     }
 
-    // Short-circuit if no documents entered, updated or exited.
+    // Short-circuit if no documents entered, updated or exited. Note that a
+    // replacement may still reorder the docs if the query's sort has changed.
     if (!enterCount && !updateCount && !exitCount) {
+      if (replace && this.sortOrderedDocs()) {
+        this.dispatchEvent(new AfterChangeEvent<LiveQueryDocType>(this.docs));
+      }
       return;
     }
 
+    // Determine the ordered docs after this change, and the positions of the
+    // exiting, entering and updating docs before and after.
+    const nextOrderedDocs = this.orderedDocs.filter(
+      (doc) => !(doc._id in exitDocs) && !(doc._id in updateDocs),
+    );
+    if (replace) {
+      nextOrderedDocs.push(...Object.values(enterDocs));
+      nextOrderedDocs.push(...Object.values(updateDocs));
+      nextOrderedDocs.sort(this.compareDocs);
+    } else {
+      for (const id in enterDocs) {
+        this.insertOrdered(nextOrderedDocs, enterDocs[id]);
+      }
+      for (const id in updateDocs) {
+        this.insertOrdered(nextOrderedDocs, updateDocs[id]);
+      }
+    }
+
+    const prevIndices = indexById(this.orderedDocs);
+    const nextIndices = indexById(nextOrderedDocs);
+
+    const exitIndices: DocIndices = {};
+    for (const id in exitDocs) {
+      exitIndices[id] = prevIndices[id];
+    }
+    const enterIndices: DocIndices = {};
+    for (const id in enterDocs) {
+      enterIndices[id] = nextIndices[id];
+    }
+    const updateMoves: DocMoves = {};
+    for (const id in updateDocs) {
+      updateMoves[id] = { from: prevIndices[id], to: nextIndices[id] };
+    }
+
+    // Populate entering and updating docs before they're dispatched.
+    this.trackRelations({ ...enterDocs, ...updateDocs });
+
     // Emit exit, enter and update events.
     if (exitCount) {
-      this.dispatchEvent(new ExitEvent<LiveQueryDocType>(exitDocs));
+      this.dispatchEvent(
+        new ExitEvent<LiveQueryDocType>(exitDocs, exitIndices),
+      );
     }
     if (enterCount) {
-      this.dispatchEvent(new EnterEvent<LiveQueryDocType>(enterDocs));
+      this.dispatchEvent(
+        new EnterEvent<LiveQueryDocType>(enterDocs, enterIndices),
+      );
     }
     if (updateCount) {
-      this.dispatchEvent(new UpdateEvent<LiveQueryDocType>(updateDocs));
+      this.dispatchEvent(
+        new UpdateEvent<LiveQueryDocType>(updateDocs, updateMoves),
+      );
     }
 
     // Update the internal document record by adding/removing documents.
@@ -347,12 +1035,197 @@ export class LiveQuery<
     }
     for (const id in exitDocs) {
       delete this.docs[id];
+      this.untrackRelations(id);
     }
+    this.orderedDocs.splice(0, this.orderedDocs.length, ...nextOrderedDocs);
 
     // Emit a catch-all afterchange event.
     this.dispatchEvent(new AfterChangeEvent<LiveQueryDocType>(this.docs));
   }
 
+  /**
+   * Follow the documents referenced by result docs' relation fields, and
+   * populate the result docs with those already loaded. The rest are loaded in
+   * the background.
+   * @param docs Result docs which entered or updated.
+   */
+  private trackRelations(docs: Docs<LiveQueryDocType>) {
+    const { populate } = this.options;
+    if (!populate?.length) {
+      return;
+    }
+
+    const unloadedIds: PouchDB.Core.DocumentId[] = [];
+    for (const id in docs) {
+      const relatedIds = new Set<PouchDB.Core.DocumentId>();
+      for (const field of populate) {
+        for (const relatedId of getReferencedIds(docs[id], field)) {
+          relatedIds.add(relatedId);
+        }
+      }
+      for (const relatedId of relatedIds) {
+        let referrers = this.referrers.get(relatedId);
+        if (!referrers) {
+          referrers = new Set();
+          this.referrers.set(relatedId, referrers);
+          unloadedIds.push(relatedId);
+        }
+        referrers.add(id);
+      }
+      this.unlinkRelations(id, relatedIds);
+      this.references.set(id, relatedIds);
+      this.populated[id] = this.populateDoc(docs[id]);
+    }
+
+    for (const relatedId of unloadedIds) {
+      this.heartDb
+        .get(relatedId)
+        .then((doc) => {
+          // Skip if no longer referenced, or if a change has since arrived.
+          if (
+            !this.closed &&
+            this.referrers.has(relatedId) &&
+            !this.relatedDocs.has(relatedId)
+          ) {
+            this.setRelatedDoc(relatedId, doc);
+          }
+        })
+        .catch((error) => {
+          this.dispatchEvent(new ErrorEvent("error", { error }));
+        });
+    }
+  }
+
+  /**
+   * Stop following the documents referenced by a result doc, if any.
+   * @param docId Id of the result doc.
+   */
+  private untrackRelations(docId: PouchDB.Core.DocumentId) {
+    if (!this.references.has(docId)) {
+      return;
+    }
+    this.unlinkRelations(docId, new Set());
+    this.references.delete(docId);
+    delete this.populated[docId];
+  }
+
+  /**
+   * Remove a result doc as a referrer of the documents it referenced, except
+   * those it still references. Documents without referrers are forgotten.
+   * @param docId Id of the result doc.
+   * @param keptIds Ids of documents which the result doc still references.
+   */
+  private unlinkRelations(
+    docId: PouchDB.Core.DocumentId,
+    keptIds: Set<PouchDB.Core.DocumentId>,
+  ) {
+    for (const relatedId of this.references.get(docId) ?? []) {
+      if (keptIds.has(relatedId)) {
+        continue;
+      }
+      const referrers = this.referrers.get(relatedId);
+      referrers?.delete(docId);
+      if (!referrers?.size) {
+        this.referrers.delete(relatedId);
+        this.relatedDocs.delete(relatedId);
+      }
+    }
+  }
+
+  /**
+   * Set a loaded or changed referenced document, and dispatch update events
+   * for the result docs which reference it.
+   * @param relatedId Id of the referenced document.
+   * @param doc Referenced document, or undefined if missing.
+   */
+  private setRelatedDoc(
+    relatedId: PouchDB.Core.DocumentId,
+    doc: (DocType & Existing) | undefined,
+  ) {
+    this.relatedDocs.set(
+      relatedId,
+      doc && !this.isOmitted(doc) ? doc : undefined,
+    );
+
+    const updateDocs: Docs<LiveQueryDocType> = {};
+    const updateMoves: DocMoves = {};
+    const indices = indexById(this.orderedDocs);
+    for (const id of this.referrers.get(relatedId) ?? []) {
+      if (id in this.docs) {
+        this.populated[id] = this.populateDoc(this.docs[id]);
+        updateDocs[id] = this.docs[id];
+        updateMoves[id] = { from: indices[id], to: indices[id] };
+      }
+    }
+    if (!Object.keys(updateDocs).length) {
+      return;
+    }
+
+    this.dispatchEvent(
+      new UpdateEvent<LiveQueryDocType>(updateDocs, updateMoves),
+    );
+    this.dispatchEvent(new AfterChangeEvent<LiveQueryDocType>(this.docs));
+  }
+
+  /**
+   * Collect the loaded documents referenced by a result doc's relation fields.
+   * @param doc Result doc.
+   * @returns Referenced documents by field.
+   */
+  private populateDoc(
+    doc: LiveQueryDocType & Existing,
+  ): PopulatedFields<DocType> {
+    const populated: PopulatedFields<DocType> = {};
+    for (const field of this.options.populate ?? []) {
+      const relatedDocs = getReferencedIds(doc, field).map((relatedId) =>
+        this.relatedDocs.get(relatedId),
+      );
+      populated[field] = Array.isArray(getFieldValue(doc, field))
+        ? relatedDocs.filter(
+            (relatedDoc): relatedDoc is DocType & Existing => !!relatedDoc,
+          )
+        : relatedDocs[0];
+    }
+    return populated;
+  }
+
+  /**
+   * Sort the ordered docs in place according to the current query.
+   * @returns Whether the order changed.
+   */
+  private sortOrderedDocs(): boolean {
+    const sortedDocs = [...this.orderedDocs].sort(this.compareDocs);
+    if (sortedDocs.every((doc, index) => doc === this.orderedDocs[index])) {
+      return false;
+    }
+    this.orderedDocs.splice(0, this.orderedDocs.length, ...sortedDocs);
+    return true;
+  }
+
+  /**
+   * Insert a doc into an ordered list of docs, at the position determined by
+   * the query's sort.
+   * @param orderedDocs List of docs, already in order.
+   * @param doc Doc to insert.
+   */
+  private insertOrdered(
+    orderedDocs: (LiveQueryDocType & Existing)[],
+    doc: LiveQueryDocType & Existing,
+  ) {
+    // Binary search for the first doc which sorts after the inserted doc.
+    let low = 0;
+    let high = orderedDocs.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this.compareDocs(orderedDocs[middle], doc) <= 0) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    orderedDocs.splice(low, 0, doc);
+  }
+
   /**
    * Listen for entering docs.
    * @param enterListener Enter event listener to add.
@@ -391,4 +1264,32 @@ export class LiveQuery<
   ): () => void {
     return this.addEventListener("afterchange", afterChangeListener);
   }
+
+  /**
+   * Create a view of the matching documents which satisfy a predicate, for
+   * filtering which a selector can't express.
+   * @param predicate Function to test each document.
+   * @returns Filtered view, which closes when this LiveQuery does.
+   */
+  filter(
+    predicate: (doc: LiveQueryDocType & Existing) => boolean,
+  ): LiveView<LiveQueryDocType> {
+    return new LiveView([this], (id) =>
+      id in this.docs && predicate(this.docs[id]) ? this.docs[id] : undefined,
+    );
+  }
+
+  /**
+   * Create a view of the matching documents transformed by a function. Mapped
+   * documents are keyed by the ids of the documents they're mapped from.
+   * @param mapper Function to transform each document.
+   * @returns Mapped view, which closes when this LiveQuery does.
+   */
+  map<MappedDocType extends Document>(
+    mapper: (doc: LiveQueryDocType & Existing) => MappedDocType & Existing,
+  ): LiveView<MappedDocType> {
+    return new LiveView([this], (id) =>
+      id in this.docs ? mapper(this.docs[id]) : undefined,
+    );
+  }
 }
@@ -0,0 +1,364 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Views derived from LiveQuery results.
+ */
+
+// Internal dependencies.
+import { CloseableEventTarget } from "./closeable-event-target";
+import {
+  AfterChangeEvent,
+  AfterChangeEventListener,
+  EnterEvent,
+  EnterEventListener,
+  ExitEvent,
+  ExitEventListener,
+  UpdateEvent,
+  UpdateEventListener,
+} from "./events";
+import { Docs, Document, Existing } from "./types";
+
+/**
+ * Live set of documents from which a LiveView can be derived, such as a
+ * LiveQuery or another LiveView. Enter, update and exit events must be
+ * dispatched before `docs` changes, followed by an afterchange event once it
+ * has.
+ */
+export interface LiveSource<DocType extends Document = Document> {
+  /**
+   * Record of documents in the set.
+   */
+  readonly docs: Docs<DocType>;
+
+  /**
+   * Whether the source is closed.
+   */
+  readonly closed: boolean;
+
+  /**
+   * Listen for entering docs.
+   */
+  onEnter(enterListener: EnterEventListener<DocType>): () => void;
+
+  /**
+   * Listen for updating docs.
+   */
+  onUpdate(updateListener: UpdateEventListener<DocType>): () => void;
+
+  /**
+   * Listen for exiting docs.
+   */
+  onExit(exitListener: ExitEventListener<DocType>): () => void;
+
+  /**
+   * Listen for the afterchange event, dispatched once `docs` has changed.
+   */
+  onAfterChange(
+    afterChangeListener: AfterChangeEventListener<DocType>,
+  ): () => void;
+
+  /**
+   * Listen for the source closing.
+   */
+  onClose(callback: EventListener): () => void;
+}
+
+/**
+ * Function which derives a view's document from its sources' current docs.
+ * @param docId Id of the document.
+ * @returns The view's document, or undefined if it isn't in the view.
+ */
+export type ViewDerivation<DocType extends Document> = (
+  docId: PouchDB.Core.DocumentId,
+) => (DocType & Existing) | undefined;
+
+/**
+ * A LiveView is a live set of documents derived from one or more sources, such
+ * as LiveQueries or other LiveViews. It's useful for post-filtering results in
+ * ways a Mango selector can't express, and for combining results.
+ *
+ * Usage:
+ *
+ * ```
+ *   const liveQuery = new LiveQuery(heartDb);
+ *   await liveQuery.setQuery({ selector: { type: "task" } });
+ *
+ *   // Filter and map query results.
+ *   const overdue = liveQuery.filter((task) => task.dueAt < Date.now());
+ *   const labelled = overdue.map((task) => ({ ...task, label: "Overdue" }));
+ *
+ *   // Combine the results of two LiveQueries (or LiveViews).
+ *   const visible = union(overdue, flaggedLiveQuery);
+ *
+ *   visible.onEnter((enterEvent) => {
+ *     // Handle entering documents in enterEvent.detail.
+ *   });
+ *
+ *   // Stop following the sources. Closing a source also closes its views.
+ *   visible.close();
+ * ```
+ *
+ * Views are incremental. When a source's documents change, only those
+ * documents are derived again, and the view dispatches enter, update and exit
+ * events for them followed by an afterchange event, like a LiveQuery. A
+ * document which changed in a source and remains in the view is updated,
+ * unless it's derived as the same document as before. Views don't track
+ * order, so events don't carry indices. A view of several sources follows
+ * each source as it changes, so a change to a document in more than one
+ * source may pass through intermediate states.
+ *
+ * @emits enter When a document enters the view.
+ * @emits update When a document in the view updates.
+ * @emits exit When a document exits the view.
+ * @emits afterchange After any enter/update/exit events.
+ * @template DocType Type of document in the view.
+ */
+export class LiveView<DocType extends Document = Document>
+  extends CloseableEventTarget
+  implements LiveSource<DocType>
+{
+  /**
+   * Record of documents in the view.
+   */
+  readonly docs: Docs<DocType> = {};
+
+  /**
+   * Sources from which the view is derived.
+   */
+  readonly sources: LiveSource[];
+
+  /**
+   * Function which derives the view's documents.
+   */
+  private readonly derive: ViewDerivation<DocType>;
+
+  /**
+   * Disconnect functions for each source's events.
+   */
+  private readonly sourceDisconnects = new Map<LiveSource, (() => void)[]>();
+
+  /**
+   * @param sources Sources from which the view is derived.
+   * @param derive Function which derives a view document from the sources.
+   */
+  constructor(
+    sources: LiveSource<Document>[],
+    derive: ViewDerivation<DocType>,
+  ) {
+    super();
+    this.sources = sources;
+    this.derive = derive;
+
+    // Derive the initial docs.
+    for (const source of sources) {
+      for (const id in source.docs) {
+        if (!(id in this.docs)) {
+          const doc = derive(id);
+          if (doc) {
+            this.docs[id] = doc;
+          }
+        }
+      }
+    }
+
+    // Collect the ids changed in each source, and derive them again once the
+    // source's docs have changed.
+    for (const source of sources) {
+      const changedIds = new Set<PouchDB.Core.DocumentId>();
+      const collectIds = (event: CustomEvent<Docs<Document>>) => {
+        for (const id in event.detail) {
+          changedIds.add(id);
+        }
+      };
+      this.sourceDisconnects.set(source, [
+        source.onEnter(collectIds),
+        source.onUpdate(collectIds),
+        source.onExit(collectIds),
+        source.onAfterChange(() => {
+          const ids = [...changedIds];
+          changedIds.clear();
+          this.processIds(ids);
+        }),
+        source.onClose(() => this.close()),
+      ]);
+    }
+  }
+
+  override close() {
+    if (this.closed) {
+      return;
+    }
+    // Closed sources have already removed their listeners.
+    for (const [source, disconnects] of this.sourceDisconnects) {
+      if (!source.closed) {
+        for (const disconnect of disconnects) {
+          disconnect();
+        }
+      }
+    }
+    this.sourceDisconnects.clear();
+    super.close();
+  }
+
+  /**
+   * Create a view of the documents in this view which satisfy a predicate.
+   * @param predicate Function to test each document.
+   * @returns Filtered view.
+   */
+  filter(predicate: (doc: DocType & Existing) => boolean): LiveView<DocType> {
+    return new LiveView([this], (id) =>
+      id in this.docs && predicate(this.docs[id]) ? this.docs[id] : undefined,
+    );
+  }
+
+  /**
+   * Create a view of the documents in this view transformed by a function.
+   * Mapped documents are keyed by the ids of the documents they're mapped from.
+   * @param mapper Function to transform each document.
+   * @returns Mapped view.
+   */
+  map<MappedDocType extends Document>(
+    mapper: (doc: DocType & Existing) => MappedDocType & Existing,
+  ): LiveView<MappedDocType> {
+    return new LiveView([this], (id) =>
+      id in this.docs ? mapper(this.docs[id]) : undefined,
+    );
+  }
+
+  /**
+   * Derive documents again, and dispatch events for those which entered,
+   * updated or exited.
+   * @param ids Ids of documents which changed in a source.
+   */
+  private processIds(ids: PouchDB.Core.DocumentId[]) {
+    const enterDocs: Docs<DocType> = {};
+    const updateDocs: Docs<DocType> = {};
+    const exitDocs: Docs<DocType> = {};
+    let changed = false;
+
+    for (const id of ids) {
+      const doc = this.derive(id);
+      if (doc) {
+        if (!(id in this.docs)) {
+          enterDocs[id] = doc;
+        } else if (doc !== this.docs[id]) {
+          updateDocs[id] = doc;
+        } else {
+          // Derived from the same document, so unchanged.
+          continue;
+        }
+        changed = true;
+      } else if (id in this.docs) {
+        exitDocs[id] = this.docs[id];
+        changed = true;
+      }
+    }
+
+    if (!changed) {
+      return;
+    }
+
+    // Emit exit, enter and update events, as a LiveQuery would.
+    if (Object.keys(exitDocs).length) {
+      this.dispatchEvent(new ExitEvent<DocType>(exitDocs));
+    }
+    if (Object.keys(enterDocs).length) {
+      this.dispatchEvent(new EnterEvent<DocType>(enterDocs));
+    }
+    if (Object.keys(updateDocs).length) {
+      this.dispatchEvent(new UpdateEvent<DocType>(updateDocs));
+    }
+
+    for (const id in exitDocs) {
+      delete this.docs[id];
+    }
+    Object.assign(this.docs, enterDocs, updateDocs);
+
+    this.dispatchEvent(new AfterChangeEvent<DocType>(this.docs));
+  }
+
+  /**
+   * Listen for entering docs.
+   * @param enterListener Enter event listener to add.
+   * @returns Disconnect function to unsubscribe the listener.
+   */
+  onEnter(enterListener: EnterEventListener<DocType>): () => void {
+    return this.addEventListener("enter", enterListener);
+  }
+
+  /**
+   * Listen for updating docs.
+   * @param updateListener Update event listener to add.
+   * @returns Disconnect function to unsubscribe the listener.
+   */
+  onUpdate(updateListener: UpdateEventListener<DocType>): () => void {
+    return this.addEventListener("update", updateListener);
+  }
+
+  /**
+   * Listen for exiting docs.
+   * @param exitListener Exit event listener to add.
+   * @returns Disconnect function to unsubscribe the listener.
+   */
+  onExit(exitListener: ExitEventListener<DocType>): () => void {
+    return this.addEventListener("exit", exitListener);
+  }
+
+  /**
+   * Listen for the afterchange event, which is dispatched after
+   * enter/update/exit events.
+   * @param afterChangeListener AfterChange event listener to add.
+   * @returns Disconnect function to unsubscribe the listener.
+   */
+  onAfterChange(
+    afterChangeListener: AfterChangeEventListener<DocType>,
+  ): () => void {
+    return this.addEventListener("afterchange", afterChangeListener);
+  }
+}
+
+/**
+ * Create a view of the documents in either of two sources. Documents in both
+ * are taken from the first.
+ * @param a First source.
+ * @param b Second source.
+ * @returns Union view.
+ */
+export function union<DocType extends Document>(
+  a: LiveSource<DocType>,
+  b: LiveSource<DocType>,
+): LiveView<DocType> {
+  return new LiveView<DocType>([a, b], (id) => a.docs[id] ?? b.docs[id]);
+}
+
+/**
+ * Create a view of the documents in both of two sources, taken from the first.
+ * @param a First source.
+ * @param b Second source.
+ * @returns Intersection view.
+ */
+export function intersection<DocType extends Document>(
+  a: LiveSource<DocType>,
+  b: LiveSource<DocType>,
+): LiveView<DocType> {
+  return new LiveView<DocType>([a, b], (id) =>
+    id in b.docs ? a.docs[id] : undefined,
+  );
+}
+
+/**
+ * Create a view of the documents in one source but not another.
+ * @param a Source of documents.
+ * @param b Source of documents to exclude.
+ * @returns Difference view.
+ */
+export function difference<DocType extends Document>(
+  a: LiveSource<DocType>,
+  b: LiveSource<DocType>,
+): LiveView<DocType> {
+  return new LiveView<DocType>([a, b], (id) =>
+    id in b.docs ? undefined : a.docs[id],
+  );
+}
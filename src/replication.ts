@@ -0,0 +1,219 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview HeartDB replication with a remote database.
+ */
+
+// Internal dependencies.
+import { CloseableEventTarget } from "./closeable-event-target";
+import { normalizeError } from "./errors";
+import {
+  ReplicationActiveEvent,
+  ReplicationActiveEventListener,
+  ReplicationCompleteEvent,
+  ReplicationCompleteEventListener,
+  ReplicationDeniedEvent,
+  ReplicationDeniedEventListener,
+  ReplicationErrorEvent,
+  ReplicationErrorEventListener,
+  ReplicationPausedEvent,
+  ReplicationPausedEventListener,
+} from "./events";
+import { HeartDB } from "./heartdb";
+import { Document, ReplicationProgress } from "./types";
+
+/**
+ * A Replication syncs a HeartDB's database with a remote database, such as a
+ * CouchDB server, in both directions. Documents pulled from the remote are
+ * written to the local database, so they are emitted as change events by the
+ * HeartDB, and followed by any LiveQuery or LiveDoc, like any other change.
+ *
+ * Usage:
+ *
+ * ```
+ *   // Start live replication. Retries after network failures by default.
+ *   const replication = heartDb.sync("https://couch.example.com/db");
+ *
+ *   // Subscribe to replication status events.
+ *   replication.onPaused((pausedEvent) => {
+ *     const { pulled, pushed } = pausedEvent.detail;
+ *     // ...show sync status...
+ *   });
+ *
+ *   // ...
+ *
+ *   // Stop replicating. Irreversible.
+ *   replication.close();
+ * ```
+ *
+ * @emits active When replication starts or resumes.
+ * @emits paused When replication catches up or is interrupted.
+ * @emits error When replication fails with an unrecoverable error.
+ * @emits complete When replication finishes.
+ * @emits denied When a document fails to replicate.
+ * @template DocType Type of document in the HeartDB.
+ * @see https://pouchdb.com/api.html#sync
+ */
+export class Replication<
+  DocType extends Document = Document,
+> extends CloseableEventTarget {
+  /**
+   * HeartDB instance whose database is replicated.
+   */
+  readonly heartDb: HeartDB<DocType>;
+
+  /**
+   * Remote database, or its URL.
+   */
+  readonly remote: PouchDB.Database<DocType> | string;
+
+  /**
+   * Counts of documents replicated so far.
+   */
+  readonly progress: ReplicationProgress = { pulled: 0, pushed: 0, failed: 0 };
+
+  /**
+   * Underlying PouchDB sync object.
+   */
+  readonly sync: PouchDB.Replication.Sync<DocType>;
+
+  /**
+   * Latest count of write failures reported for each direction.
+   */
+  private readonly writeFailures = { pull: 0, push: 0 };
+
+  /**
+   * Disconnect function for the HeartDB close listener.
+   */
+  private closeDisconnect?: () => void;
+
+  /**
+   * @param heartDb HeartDB instance whose database to replicate.
+   * @param remote Remote database, or its URL.
+   * @param options PouchDB sync options. Replication is live and retries by
+   * default.
+   */
+  constructor(
+    heartDb: HeartDB<DocType>,
+    remote: PouchDB.Database<DocType> | string,
+    options: PouchDB.Replication.SyncOptions = {},
+  ) {
+    super();
+    this.heartDb = heartDb;
+    this.remote = remote;
+
+    this.sync = heartDb.pouchDb.sync(remote, {
+      live: true,
+      retry: true,
+      ...options,
+    });
+
+    this.sync.on("change", ({ direction, change }) => {
+      const written = change.docs.length;
+      if (direction === "pull") {
+        this.progress.pulled += written;
+      } else {
+        this.progress.pushed += written;
+      }
+      this.writeFailures[direction] = change.doc_write_failures;
+      this.progress.failed = this.writeFailures.pull + this.writeFailures.push;
+    });
+    this.sync.on("active", () => {
+      this.dispatchEvent(new ReplicationActiveEvent(this.snapshot()));
+    });
+    this.sync.on("paused", (error) => {
+      this.dispatchEvent(
+        new ReplicationPausedEvent(
+          this.snapshot(),
+          error ? normalizeError(error) : undefined,
+        ),
+      );
+    });
+    this.sync.on("denied", (error) => {
+      this.dispatchEvent(
+        new ReplicationDeniedEvent(this.snapshot(), normalizeError(error)),
+      );
+    });
+    this.sync.on("error", (error) => {
+      this.dispatchEvent(
+        new ReplicationErrorEvent(this.snapshot(), normalizeError(error)),
+      );
+    });
+    this.sync.on("complete", () => {
+      this.dispatchEvent(new ReplicationCompleteEvent(this.snapshot()));
+    });
+
+    this.closeDisconnect = heartDb.addEventListener("close", () => {
+      this.close();
+    });
+  }
+
+  /**
+   * Stop replicating and remove all listeners.
+   */
+  override close() {
+    if (this.closed) {
+      return;
+    }
+    this.closeDisconnect?.call(null);
+    this.closeDisconnect = undefined;
+    this.sync.removeAllListeners();
+    this.sync.cancel();
+    super.close();
+  }
+
+  /**
+   * Copy the current progress, so that event details don't change later.
+   * @returns Copy of the current progress.
+   */
+  private snapshot(): ReplicationProgress {
+    return { ...this.progress };
+  }
+
+  /**
+   * Listen for replication starting or resuming.
+   * @param activeListener Active event listener to add.
+   * @returns Disconnect function to unsubscribe the listener.
+   */
+  onActive(activeListener: ReplicationActiveEventListener): () => void {
+    return this.addEventListener("active", activeListener);
+  }
+
+  /**
+   * Listen for replication catching up or being interrupted.
+   * @param pausedListener Paused event listener to add.
+   * @returns Disconnect function to unsubscribe the listener.
+   */
+  onPaused(pausedListener: ReplicationPausedEventListener): () => void {
+    return this.addEventListener("paused", pausedListener);
+  }
+
+  /**
+   * Listen for unrecoverable replication errors.
+   * @param errorListener Error event listener to add.
+   * @returns Disconnect function to unsubscribe the listener.
+   */
+  onError(errorListener: ReplicationErrorEventListener): () => void {
+    return this.addEventListener("error", errorListener);
+  }
+
+  /**
+   * Listen for replication finishing.
+   * @param completeListener Complete event listener to add.
+   * @returns Disconnect function to unsubscribe the listener.
+   */
+  onComplete(completeListener: ReplicationCompleteEventListener): () => void {
+    return this.addEventListener("complete", completeListener);
+  }
+
+  /**
+   * Listen for documents which fail to replicate.
+   * @param deniedListener Denied event listener to add.
+   * @returns Disconnect function to unsubscribe the listener.
+   */
+  onDenied(deniedListener: ReplicationDeniedEventListener): () => void {
+    return this.addEventListener("denied", deniedListener);
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Helpers for working with document revisions.
+ */
+
+// Internal dependencies.
+import { NotFoundError, normalizeError } from "./errors";
+import { Document, Existing } from "./types";
+
+/**
+ * Get the generation number of a revision (the part before the dash).
+ * @param rev Revision string.
+ * @returns Generation number.
+ */
+export function getRevGeneration(rev: PouchDB.Core.RevisionId): number {
+  return parseInt(rev, 10);
+}
+
+/**
+ * Get the ancestry of a revision, from the revision itself back to the oldest
+ * revision still known.
+ * @param pouchDb Database containing the document.
+ * @param docId Id of the document.
+ * @param rev Revision whose ancestry to get.
+ * @returns Promise that resolves with the revisions, newest first.
+ */
+async function getRevAncestry<DocType extends Document>(
+  pouchDb: PouchDB.Database<DocType>,
+  docId: PouchDB.Core.DocumentId,
+  rev: PouchDB.Core.RevisionId,
+): Promise<PouchDB.Core.RevisionId[]> {
+  const { _revisions } = await pouchDb.get(docId, { rev, revs: true });
+  if (!_revisions) {
+    return [rev];
+  }
+  return _revisions.ids.map((id, index) => `${_revisions.start - index}-${id}`);
+}
+
+/**
+ * Get the latest revision which several revisions of a document have in common.
+ * @param pouchDb Database containing the document.
+ * @param docId Id of the document.
+ * @param revs Revisions whose common ancestor to get.
+ * @returns Promise that resolves with the common ancestor, or undefined if
+ * there's none or it's no longer available (e.g. after compaction).
+ */
+export async function getCommonAncestor<DocType extends Document>(
+  pouchDb: PouchDB.Database<DocType>,
+  docId: PouchDB.Core.DocumentId,
+  revs: PouchDB.Core.RevisionId[],
+): Promise<(DocType & Existing) | undefined> {
+  try {
+    const ancestries = await Promise.all(
+      revs.map((rev) => getRevAncestry(pouchDb, docId, rev)),
+    );
+    const [firstAncestry, ...otherAncestries] = ancestries;
+    const commonRev = firstAncestry.find((rev) =>
+      otherAncestries.every((ancestry) => ancestry.includes(rev)),
+    );
+    return commonRev ? await pouchDb.get(docId, { rev: commonRev }) : undefined;
+  } catch (error) {
+    const normalizedError = normalizeError(error);
+    if (normalizedError instanceof NotFoundError) {
+      return undefined;
+    }
+    throw normalizedError;
+  }
+}
+
+/**
+ * Marker distinguishing pending revisions from real ones, which are hex digests.
+ */
+const PENDING_REV_MARKER = "pending";
+
+/**
+ * Counter making each pending revision unique.
+ */
+let pendingRevCount = 0;
+
+/**
+ * Create a pending revision for an optimistic write, in the generation after
+ * the revision being written over.
+ * @param rev Revision being written over, if any.
+ * @returns Pending revision string.
+ */
+export function createPendingRevision(rev?: PouchDB.Core.RevisionId): string {
+  const generation = rev ? getRevGeneration(rev) + 1 : 1;
+  return `${generation}-${PENDING_REV_MARKER}${++pendingRevCount}`;
+}
+
+/**
+ * Determine whether a revision is a pending revision from an optimistic write.
+ * @param rev Revision string.
+ * @returns Whether the revision is pending.
+ */
+export function isPendingRevision(rev: PouchDB.Core.RevisionId): boolean {
+  return rev.startsWith(PENDING_REV_MARKER, rev.indexOf("-") + 1);
+}
+
+/**
+ * Get the revision of a document preceding the specified revision.
+ * @param pouchDb Database containing the document.
+ * @param docId Id of the document.
+ * @param rev Revision whose predecessor to get.
+ * @returns Promise that resolves with the previous revision, or undefined if
+ * the specified revision was the first.
+ * @throws {NotFoundError} If the previous revision is no longer available
+ * (e.g. after compaction).
+ */
+export async function getPreviousRevision<DocType extends Document>(
+  pouchDb: PouchDB.Database<DocType>,
+  docId: PouchDB.Core.DocumentId,
+  rev: PouchDB.Core.RevisionId,
+): Promise<(DocType & Existing) | undefined> {
+  try {
+    const { _revisions } = await pouchDb.get(docId, { rev, revs: true });
+    if (!_revisions || _revisions.ids.length < 2) {
+      return undefined;
+    }
+    const previousRev = `${_revisions.start - 1}-${_revisions.ids[1]}`;
+    return await pouchDb.get(docId, { rev: previousRev });
+  } catch (error) {
+    throw normalizeError(error);
+  }
+}
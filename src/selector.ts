@@ -0,0 +1,328 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview In-memory evaluation of Mango selectors.
+ */
+
+// Internal dependencies.
+import { collate, getFieldValue } from "./collate";
+
+/**
+ * Combination operators which may appear in place of a field name.
+ */
+const COMBINATION_OPERATORS = new Set(["$and", "$or", "$nor", "$not"]);
+
+/**
+ * Condition operators which may be applied to a field's value.
+ */
+const CONDITION_OPERATORS = new Set([
+  "$eq",
+  "$ne",
+  "$gt",
+  "$gte",
+  "$lt",
+  "$lte",
+  "$exists",
+  "$type",
+  "$in",
+  "$nin",
+  "$size",
+  "$mod",
+  "$regex",
+  "$all",
+  "$elemMatch",
+  "$allMatch",
+]);
+
+/**
+ * Determine whether a value is a plain object (as opposed to an array, null or
+ * a primitive value).
+ * @param value Value to check.
+ * @returns Whether the value is a plain object.
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Determine whether a value is neither undefined nor null.
+ * @param value Value to check.
+ * @returns Whether the value exists.
+ */
+function exists(value: unknown): boolean {
+  return value !== undefined && value !== null;
+}
+
+/**
+ * Determine whether a field value equals, or is an array containing a value
+ * which equals, any of the provided values.
+ * @param fieldValue Field value to check.
+ * @param values Values to look for.
+ * @returns Whether any value is contained.
+ */
+function containsAny(fieldValue: unknown, values: unknown[]): boolean {
+  return values.some((value) =>
+    Array.isArray(fieldValue)
+      ? fieldValue.some((item) => collate(value, item) === 0)
+      : collate(value, fieldValue) === 0,
+  );
+}
+
+/**
+ * Determine whether a value matches a condition.
+ * @param condition Condition object (or value for implicit equality).
+ * @param value Value to test.
+ * @returns Whether the value matches.
+ */
+function matchesCondition(condition: unknown, value: unknown): boolean {
+  if (!isPlainObject(condition)) {
+    return matchesOperator("$eq", condition, value);
+  }
+
+  return Object.keys(condition).every((key) => {
+    const operand = condition[key];
+    if (key.startsWith("$")) {
+      return matchesOperator(key, operand, value);
+    }
+
+    // A non-operator key refers to a sub-field of the value.
+    return matchesCondition(operand, getFieldValue(value, key));
+  });
+}
+
+/**
+ * Determine whether a value satisfies a single condition operator, following
+ * the semantics of pouchdb-find.
+ * @param operator Condition operator, such as "$gt".
+ * @param operand Operand of the operator.
+ * @param value Value to test.
+ * @returns Whether the value satisfies the operator.
+ */
+function matchesOperator(
+  operator: string,
+  operand: unknown,
+  value: unknown,
+): boolean {
+  switch (operator) {
+    case "$eq":
+      return value !== undefined && collate(value, operand) === 0;
+    case "$ne":
+      return collate(value, operand) !== 0;
+    case "$gt":
+      return value !== undefined && collate(value, operand) > 0;
+    case "$gte":
+      return value !== undefined && collate(value, operand) >= 0;
+    case "$lt":
+      return value !== undefined && collate(value, operand) < 0;
+    case "$lte":
+      return value !== undefined && collate(value, operand) <= 0;
+    case "$exists":
+      return operand ? value !== undefined : value === undefined;
+    case "$type":
+      return matchesType(operand, value);
+    case "$in":
+      return exists(value) && containsAny(value, operand as unknown[]);
+    case "$nin":
+      return exists(value) && !containsAny(value, operand as unknown[]);
+    case "$size":
+      return Array.isArray(value) && value.length === operand;
+    case "$mod": {
+      const [divisor, remainder] = operand as [number, number];
+      return (
+        typeof value === "number" &&
+        Number.isInteger(value) &&
+        value % divisor === remainder
+      );
+    }
+    case "$regex":
+      return (
+        typeof value === "string" && new RegExp(operand as string).test(value)
+      );
+    case "$all":
+      return (
+        Array.isArray(value) &&
+        (operand as unknown[]).every((item) => containsAny(value, [item]))
+      );
+    case "$elemMatch":
+      return (
+        Array.isArray(value) && value.some(createElementMatcher(operand, value))
+      );
+    case "$allMatch":
+      return (
+        Array.isArray(value) &&
+        value.length > 0 &&
+        value.every(createElementMatcher(operand, value))
+      );
+  }
+
+  throw new Error(`Unsupported selector operator "${operator}".`);
+}
+
+/**
+ * Create a function to match the elements of an array against an $elemMatch
+ * or $allMatch operand. As with pouchdb-find, if the first element is an
+ * object, elements are matched as documents against a selector. Otherwise,
+ * they're matched against a condition.
+ * @param operand Selector or condition.
+ * @param array Array whose elements will be matched.
+ * @returns Element matching function.
+ */
+function createElementMatcher(
+  operand: unknown,
+  array: unknown[],
+): (element: unknown) => boolean {
+  if (typeof array[0] === "object" && array[0] !== null) {
+    return (element) =>
+      matchesSelector(element, operand as PouchDB.Find.Selector);
+  }
+  if (!isSupportedCondition(operand)) {
+    // Combination operators can't match a non-object element.
+    return () => false;
+  }
+  return (element) => matchesCondition(operand, element);
+}
+
+/**
+ * Determine whether a value is of the named JSON type.
+ * @param typeName One of "null", "boolean", "number", "string", "array" or
+ * "object".
+ * @param value Value to check.
+ * @returns Whether the value is of that type.
+ */
+function matchesType(typeName: unknown, value: unknown): boolean {
+  switch (typeName) {
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+    case "boolean":
+    case "number":
+    case "string":
+      return typeof value === typeName;
+  }
+  return false;
+}
+
+/**
+ * Determine whether a document matches a Mango selector, without querying the
+ * database. Callers should first check that the selector is supported with
+ * `isSupportedSelector()`.
+ * @param doc Document to test.
+ * @param selector Mango selector.
+ * @returns Whether the document matches.
+ * @throws {Error} If the selector uses an unsupported operator.
+ */
+export function matchesSelector(
+  doc: unknown,
+  selector: PouchDB.Find.Selector,
+): boolean {
+  return Object.keys(selector).every((field) => {
+    const condition = selector[field];
+    switch (field) {
+      case "$and":
+        return (condition as PouchDB.Find.Selector[]).every((subSelector) =>
+          matchesSelector(doc, subSelector),
+        );
+      case "$or":
+        return (condition as PouchDB.Find.Selector[]).some((subSelector) =>
+          matchesSelector(doc, subSelector),
+        );
+      case "$nor":
+        return !(condition as PouchDB.Find.Selector[]).some((subSelector) =>
+          matchesSelector(doc, subSelector),
+        );
+      case "$not":
+        return !matchesSelector(doc, condition as PouchDB.Find.Selector);
+    }
+    return matchesCondition(condition, getFieldValue(doc, field));
+  });
+}
+
+/**
+ * Determine whether a condition only uses supported operators.
+ * @param condition Condition object (or value for implicit equality).
+ * @returns Whether the condition can be evaluated in memory.
+ */
+function isSupportedCondition(condition: unknown): boolean {
+  if (!isPlainObject(condition)) {
+    return true;
+  }
+
+  return Object.keys(condition).every((key) => {
+    const operand = condition[key];
+
+    if (!key.startsWith("$")) {
+      return isSupportedCondition(operand);
+    }
+
+    if (!CONDITION_OPERATORS.has(key)) {
+      return false;
+    }
+
+    switch (key) {
+      case "$in":
+      case "$nin":
+      case "$all":
+        return Array.isArray(operand);
+      case "$mod":
+        return (
+          Array.isArray(operand) &&
+          operand.length === 2 &&
+          operand.every((item) => Number.isInteger(item)) &&
+          operand[0] !== 0
+        );
+      case "$regex":
+        return typeof operand === "string";
+      case "$elemMatch":
+      case "$allMatch":
+        // The operand may be applied as either a selector or a condition.
+        return (
+          isPlainObject(operand) &&
+          (isSupportedCondition(operand) ||
+            isSupportedSelector(operand as PouchDB.Find.Selector))
+        );
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Determine whether a selector can be evaluated in memory by
+ * `matchesSelector()`. Selectors using operators or operands which are not
+ * supported should instead be evaluated by the database with `find()`.
+ * @param selector Mango selector.
+ * @returns Whether the selector is supported.
+ */
+export function isSupportedSelector(selector: PouchDB.Find.Selector): boolean {
+  if (!isPlainObject(selector)) {
+    return false;
+  }
+
+  return Object.keys(selector).every((field) => {
+    const condition = selector[field];
+
+    if (COMBINATION_OPERATORS.has(field)) {
+      if (field === "$not") {
+        return (
+          isPlainObject(condition) &&
+          isSupportedSelector(condition as PouchDB.Find.Selector)
+        );
+      }
+      return (
+        Array.isArray(condition) &&
+        condition.every((subSelector) => isSupportedSelector(subSelector))
+      );
+    }
+
+    if (field.startsWith("$")) {
+      return false;
+    }
+
+    return isSupportedCondition(condition);
+  });
+}
@@ -0,0 +1,242 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Staged reads and writes for HeartDB transactions.
+ */
+
+// Internal dependencies.
+import {
+  ClosedError,
+  ImmutableFieldError,
+  NotFoundError,
+  normalizeError,
+} from "./errors";
+import { HeartDB } from "./heartdb";
+import { Document, Existing, UpdateCallbackFunction } from "./types";
+
+/**
+ * Write staged by a transaction, along with the state of the document when the
+ * transaction first read it.
+ * @template DocType Type of document written.
+ */
+export interface StagedWrite<DocType extends Document = Document> {
+  /**
+   * Document to write, with the revision read by the transaction.
+   */
+  doc: DocType & PouchDB.Core.IdMeta;
+
+  /**
+   * Stored state of the document when first read (before migration or onRead
+   * hooks), or undefined if it didn't exist. Restored on rollback.
+   */
+  original: (DocType & Existing) | undefined;
+}
+
+/**
+ * A Transaction stages reads and writes of several documents, to be committed
+ * together by HeartDB's `transaction()` method. Reads of documents which the
+ * transaction has written return the staged version. Writes are made against
+ * the revision first read, so if a document is changed elsewhere before the
+ * transaction commits, the commit fails with a conflict and is rolled back.
+ *
+ * Transactions are created by HeartDB's `transaction()` method, and can't be
+ * used after its callback settles.
+ * @template DocType Type of document in the HeartDB.
+ */
+export class Transaction<DocType extends Document = Document> {
+  /**
+   * Stored state of each document when first read, keyed by id.
+   */
+  private readonly originals = new Map<
+    PouchDB.Core.DocumentId,
+    (DocType & Existing) | undefined
+  >();
+
+  /**
+   * Each document as first read, prepared for reading, keyed by id.
+   */
+  private readonly readDocs = new Map<
+    PouchDB.Core.DocumentId,
+    (DocType & Existing) | undefined
+  >();
+
+  /**
+   * Staged writes, keyed by document id.
+   */
+  private readonly writes = new Map<
+    PouchDB.Core.DocumentId,
+    DocType & PouchDB.Core.IdMeta
+  >();
+
+  /**
+   * Whether the transaction's callback has settled, after which no more reads
+   * or writes may be staged.
+   */
+  private finished = false;
+
+  /**
+   * @param heartDb HeartDB instance to read from and commit to.
+   */
+  constructor(readonly heartDb: HeartDB<DocType>) {}
+
+  /**
+   * Get a document, or undefined if not found or removed by this transaction.
+   * @param docId Id of document to retrieve.
+   * @returns Either the staged or stored document, or undefined.
+   * @throws {ClosedError} If the transaction has finished.
+   */
+  async get<GetDocType extends DocType = DocType>(
+    docId: PouchDB.Core.DocumentId,
+  ): Promise<(GetDocType & Existing) | undefined> {
+    this.assertNotFinished();
+    const stagedDoc = this.writes.get(docId);
+    if (stagedDoc) {
+      return stagedDoc._deleted
+        ? undefined
+        : (stagedDoc as GetDocType & Existing);
+    }
+    return (await this.read(docId)) as (GetDocType & Existing) | undefined;
+  }
+
+  /**
+   * Stage a document to be written, replacing any staged write of it.
+   * @param doc Document to write. Its _rev is ignored in favor of the revision
+   * read by the transaction.
+   * @throws {ClosedError} If the transaction has finished.
+   */
+  async put(doc: DocType & PouchDB.Core.IdMeta): Promise<void> {
+    this.assertNotFinished();
+    const original = await this.read(doc._id);
+    const stagedDoc = { ...doc };
+    delete stagedDoc._rev;
+    if (original) {
+      stagedDoc._rev = original._rev;
+    }
+    this.writes.set(doc._id, stagedDoc);
+  }
+
+  /**
+   * Stage an update of a document, as with HeartDB's `update()`. The update
+   * callback is passed the staged or stored document (or undefined if
+   * missing). If it returns undefined, nothing is staged. As with `update()`,
+   * a stored document is migrated, but not passed through onRead middleware.
+   * @param docId Id of the document to update.
+   * @param updateCallback Callback function to update the document.
+   * @throws {ImmutableFieldError} If the callback changes the _id.
+   * @throws {ClosedError} If the transaction has finished.
+   */
+  async update<UpdateDocType extends DocType = DocType>(
+    docId: PouchDB.Core.DocumentId,
+    updateCallback: UpdateCallbackFunction<UpdateDocType>,
+  ): Promise<void> {
+    const existingDoc = (await this.getForWrite(docId)) as
+      | (UpdateDocType & Existing)
+      | undefined;
+
+    const resultDoc = await updateCallback(existingDoc);
+
+    if (!resultDoc) {
+      // Update aborted.
+      return;
+    }
+
+    if (resultDoc._id !== undefined && resultDoc._id !== docId) {
+      throw new ImmutableFieldError("_id");
+    }
+
+    await this.put({ ...resultDoc, _id: docId });
+  }
+
+  /**
+   * Stage the removal of a document, as with HeartDB's `remove()`.
+   * @param docId Id of the document to remove.
+   * @throws {ClosedError} If the transaction has finished.
+   */
+  async remove(docId: PouchDB.Core.DocumentId): Promise<void> {
+    const existingDoc = await this.getForWrite(docId);
+    if (!existingDoc || this.heartDb.isRemoved(existingDoc)) {
+      return;
+    }
+
+    // A document created by this transaction need not be written at all.
+    if (!this.originals.get(docId)) {
+      this.writes.delete(docId);
+      return;
+    }
+
+    await this.put(this.heartDb.toRemoved(existingDoc));
+  }
+
+  /**
+   * Stop accepting reads and writes, and get the staged writes for commit.
+   * Called by HeartDB's `transaction()` method.
+   * @returns Staged writes, in the order first staged.
+   */
+  finish(): StagedWrite<DocType>[] {
+    this.finished = true;
+    return Array.from(this.writes.values()).map((doc) => ({
+      doc,
+      original: this.originals.get(doc._id),
+    }));
+  }
+
+  /**
+   * Read a document from the HeartDB, once per transaction, remembering its
+   * stored state for rollback.
+   * @param docId Id of document to read.
+   * @returns The document as first read and prepared for reading (as by
+   * HeartDB's `get()`), or undefined if not found.
+   */
+  private async read(
+    docId: PouchDB.Core.DocumentId,
+  ): Promise<(DocType & Existing) | undefined> {
+    if (!this.readDocs.has(docId)) {
+      let storedDoc: (DocType & Existing) | undefined = undefined;
+      try {
+        storedDoc = await this.heartDb.pouchDb.get(docId);
+      } catch (error) {
+        const normalizedError = normalizeError(error);
+        if (!(normalizedError instanceof NotFoundError)) {
+          throw normalizedError;
+        }
+      }
+      this.originals.set(docId, storedDoc);
+      this.readDocs.set(docId, storedDoc && this.heartDb.readDoc(storedDoc));
+    }
+    return this.readDocs.get(docId);
+  }
+
+  /**
+   * Get a document to write over: the staged document, or else the stored
+   * document migrated to the latest schema version, without onRead middleware
+   * applied, so that fields derived on read aren't stored.
+   * @param docId Id of the document.
+   * @returns The document, or undefined if not found or removed by this
+   * transaction.
+   * @throws {ClosedError} If the transaction has finished.
+   */
+  private async getForWrite(
+    docId: PouchDB.Core.DocumentId,
+  ): Promise<(DocType & Existing) | undefined> {
+    this.assertNotFinished();
+    const stagedDoc = this.writes.get(docId);
+    if (stagedDoc) {
+      return stagedDoc._deleted ? undefined : (stagedDoc as DocType & Existing);
+    }
+    await this.read(docId);
+    const original = this.originals.get(docId);
+    return original && this.heartDb.migrate(original);
+  }
+
+  /**
+   * Throw if the transaction has finished.
+   * @throws {ClosedError} If the transaction has finished.
+   */
+  private assertNotFinished() {
+    if (this.finished) {
+      throw new ClosedError("Transaction is finished.");
+    }
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Transports for relaying messages between execution contexts.
+ */
+
+// Internal dependencies.
+import { Transport } from "./types";
+
+/**
+ * Transport using a BroadcastChannel, which relays messages to all same-origin
+ * contexts which open a channel with the same name. This is HeartDB's default.
+ * @template Message Type of message relayed.
+ */
+export class BroadcastChannelTransport<Message = unknown>
+  implements Transport<Message>
+{
+  /**
+   * Underlying broadcast channel.
+   */
+  readonly channel: BroadcastChannel;
+
+  /**
+   * @param name Name of the broadcast channel to open.
+   */
+  constructor(name: string) {
+    this.channel = new BroadcastChannel(name);
+  }
+
+  postMessage(message: Message) {
+    this.channel.postMessage(message);
+  }
+
+  subscribe(listener: (message: Message) => void): () => void {
+    const messageListener = (event: Event) => {
+      listener((event as MessageEvent<Message>).data);
+    };
+    this.channel.addEventListener("message", messageListener);
+    return () => {
+      this.channel.removeEventListener("message", messageListener);
+    };
+  }
+
+  close() {
+    this.channel.close();
+  }
+}
+
+/**
+ * Transport using a MessagePort, such as one end of a MessageChannel passed to
+ * a SharedWorker, service worker or iframe. The other end is responsible for
+ * relaying messages on to any further contexts.
+ * @template Message Type of message relayed.
+ */
+export class MessagePortTransport<Message = unknown>
+  implements Transport<Message>
+{
+  /**
+   * @param port Message port to send and receive on.
+   */
+  constructor(readonly port: MessagePort) {}
+
+  postMessage(message: Message) {
+    this.port.postMessage(message);
+  }
+
+  subscribe(listener: (message: Message) => void): () => void {
+    const messageListener = (event: Event) => {
+      listener((event as MessageEvent<Message>).data);
+    };
+    this.port.addEventListener("message", messageListener);
+
+    // Ports don't dispatch messages to listeners until started.
+    this.port.start();
+
+    return () => {
+      this.port.removeEventListener("message", messageListener);
+    };
+  }
+
+  close() {
+    this.port.close();
+  }
+}
+
+/**
+ * Transport which relays messages between instances in the same execution
+ * context which were created with the same name. Useful for testing without
+ * global channels. As with BroadcastChannel, messages are delivered
+ * asynchronously, and not to the sending instance.
+ * @template Message Type of message relayed.
+ */
+export class InProcessTransport<Message = unknown>
+  implements Transport<Message>
+{
+  /**
+   * Open transports, keyed by name.
+   */
+  private static readonly transports = new Map<
+    string,
+    Set<InProcessTransport<unknown>>
+  >();
+
+  /**
+   * Listeners for incoming messages.
+   */
+  private readonly listeners = new Set<(message: Message) => void>();
+
+  /**
+   * Whether this transport has been closed.
+   */
+  private closed = false;
+
+  /**
+   * @param name Name shared by transports which should relay to each other.
+   */
+  constructor(readonly name: string) {
+    let transports = InProcessTransport.transports.get(name);
+    if (!transports) {
+      transports = new Set();
+      InProcessTransport.transports.set(name, transports);
+    }
+    transports.add(this as InProcessTransport<unknown>);
+  }
+
+  postMessage(message: Message) {
+    if (this.closed) {
+      return;
+    }
+    const transports = InProcessTransport.transports.get(this.name) ?? [];
+    for (const transport of transports) {
+      if (transport !== this) {
+        setTimeout(() => transport.deliver(message), 0);
+      }
+    }
+  }
+
+  subscribe(listener: (message: Message) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  close() {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.listeners.clear();
+    const transports = InProcessTransport.transports.get(this.name);
+    transports?.delete(this as InProcessTransport<unknown>);
+    if (!transports?.size) {
+      InProcessTransport.transports.delete(this.name);
+    }
+  }
+
+  /**
+   * Deliver a message from another transport to this one's listeners.
+   * @param message Message to deliver.
+   */
+  private deliver(message: unknown) {
+    if (this.closed) {
+      return;
+    }
+    for (const listener of this.listeners) {
+      listener(message as Message);
+    }
+  }
+}
+
+/**
+ * Transport which neither sends nor receives messages, for when changes need
+ * not be relayed to other contexts.
+ * @template Message Type of message (ignored).
+ */
+export class NoopTransport<Message = unknown> implements Transport<Message> {
+  postMessage() {}
+
+  subscribe(): () => void {
+    return () => {};
+  }
+
+  close() {}
+}
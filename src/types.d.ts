@@ -6,6 +6,8 @@
  * @fileoverview Type definitions.
  */
 
+import { ChangesResponseChange } from "./events";
+
 /**
  * An Existing document has an `_id` string field, a `_rev` string field and may
  * have a changes meta fields such as the `_deleted` boolean field.
@@ -28,6 +30,36 @@ export type Docs<DocType extends Document> = Record<
   DocType & Existing
 >;
 
+/**
+ * Documents referenced by a document's relation fields, keyed by field. A field
+ * holding a single id maps to the referenced document (or undefined if it's
+ * missing), and a field holding an array of ids maps to the array of those
+ * referenced documents which exist.
+ */
+export type PopulatedFields<DocType extends Document = Document> = Record<
+  string,
+  (DocType & Existing) | (DocType & Existing)[] | undefined
+>;
+
+/**
+ * Positions of documents within an ordered list, keyed by document id.
+ */
+export type DocIndices = Record<PouchDB.Core.DocumentId, number>;
+
+/**
+ * Movement of a document within an ordered list, from its previous index to its
+ * next index.
+ */
+export interface DocMove {
+  from: number;
+  to: number;
+}
+
+/**
+ * Movements of documents within an ordered list, keyed by document id.
+ */
+export type DocMoves = Record<PouchDB.Core.DocumentId, DocMove>;
+
 /**
  * Simple union type for promises or values they yield.
  */
@@ -43,3 +75,372 @@ export type PromiseOrValue<ValueType> = ValueType | Promise<ValueType>;
 export type UpdateCallbackFunction<UpdateDocType extends Document> = (
   doc: (UpdateDocType & Existing) | undefined,
 ) => PromiseOrValue<UpdateDocType | undefined>;
+
+/**
+ * Per-document outcome of HeartDB's `bulkDocs()` method. Successful writes
+ * carry the settled change, while failed writes carry the error for that
+ * document (such as a ConflictError).
+ * @template DocType Type of document written.
+ */
+export type BulkDocsResult<DocType extends Document = Document> =
+  | {
+      ok: true;
+      id: PouchDB.Core.DocumentId;
+      change: ChangesResponseChange<DocType>;
+    }
+  | {
+      ok: false;
+      id?: PouchDB.Core.DocumentId;
+      error: Error;
+    };
+
+/**
+ * Policy for retrying an operation which failed in a recoverable way, such as
+ * HeartDB's `update()` failing due to a conflict.
+ */
+export interface RetryPolicy {
+  /**
+   * Maximum number of attempts, including the first.
+   */
+  maxAttempts: number;
+
+  /**
+   * Delay in milliseconds before retrying. May be a function which is passed
+   * the number of the attempt which just failed (starting at 1) and returns the
+   * delay. Defaults to zero.
+   */
+  backoff?: number | ((attempt: number) => number);
+}
+
+/**
+ * A Transport relays messages between HeartDB instances in different execution
+ * contexts (e.g. tabs, workers or iframes). A message posted by one instance
+ * should be delivered to every other connected instance, but not to itself.
+ * @template Message Type of message relayed.
+ */
+export interface Transport<Message = unknown> {
+  /**
+   * Send a message to the other connected instances.
+   * @param message Message to send. Must be structured-cloneable.
+   */
+  postMessage(message: Message): void;
+
+  /**
+   * Listen for messages from other connected instances.
+   * @param listener Callback function to invoke with each message.
+   * @returns Function to call to unsubscribe.
+   */
+  subscribe(listener: (message: Message) => void): () => void;
+
+  /**
+   * Stop sending and receiving messages, and release any resources.
+   */
+  close(): void;
+}
+
+/**
+ * Counts of documents replicated so far by a Replication.
+ */
+export interface ReplicationProgress {
+  /**
+   * Number of documents written to the local database from the remote.
+   */
+  pulled: number;
+
+  /**
+   * Number of documents written to the remote database from the local.
+   */
+  pushed: number;
+
+  /**
+   * Number of documents which failed to be written, in either direction.
+   */
+  failed: number;
+}
+
+/**
+ * Singleton work for HeartDB's `runAsLeader()` method. The task is started when
+ * its context becomes leader. It may return (or resolve to) a cleanup function,
+ * which is called when the context stops being leader.
+ */
+export type LeaderTask = () => PromiseOrValue<(() => void) | void>;
+
+/**
+ * A single reason a document failed validation.
+ */
+export interface ValidationIssue {
+  /**
+   * Dotted path of the offending field (e.g. "address.city" or "items.0"), or
+   * an empty string for the document as a whole.
+   */
+  path: string;
+
+  /**
+   * Description of the problem.
+   */
+  message: string;
+}
+
+/**
+ * Name of a JSON value type, for schema descriptors.
+ */
+export type SchemaType =
+  | "null"
+  | "boolean"
+  | "number"
+  | "integer"
+  | "string"
+  | "array"
+  | "object";
+
+/**
+ * A JSON-Schema-like description of a valid value. Supports a subset of JSON
+ * Schema's keywords.
+ */
+export interface SchemaDescriptor {
+  type?: SchemaType | SchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  items?: SchemaDescriptor;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, SchemaDescriptor>;
+  required?: string[];
+
+  /**
+   * Whether properties not listed in `properties` are allowed. Defaults to
+   * true. Document metadata fields (starting with "_") are always allowed.
+   */
+  additionalProperties?: boolean;
+}
+
+/**
+ * Predicate which validates a document, returning true if it's valid. It may
+ * instead return a list of issues, which is empty if the document is valid.
+ */
+export type ValidatorPredicate<DocType extends Document = Document> = (
+  doc: DocType,
+) => boolean | ValidationIssue[];
+
+/**
+ * Validator for documents of a given type: either a predicate or a schema
+ * descriptor.
+ */
+export type Validator<DocType extends Document = Document> =
+  | ValidatorPredicate<DocType>
+  | SchemaDescriptor;
+
+/**
+ * Function which resolves conflicting revisions of a document into a single
+ * document, which is written as the new winning revision. It may be async.
+ * @param revisions Conflicting revisions, starting with PouchDB's winner.
+ * @param base Latest revision the conflicting revisions have in common, or
+ * undefined if there's none or it's no longer available.
+ * @returns The resolved document. Its _id and _rev are ignored.
+ */
+export type ConflictResolver<DocType extends Document = Document> = (
+  revisions: (DocType & Existing)[],
+  base: (DocType & Existing) | undefined,
+) => PromiseOrValue<DocType>;
+
+/**
+ * Function which upgrades a document to a schema version, from the version
+ * before it. It's passed a copy of the document, which it may modify and
+ * return, and must be synchronous since documents are migrated as they're
+ * read.
+ */
+export type MigrationFunction<DocType extends Document = Document> = (
+  doc: DocType,
+) => DocType;
+
+/**
+ * Counts of documents processed so far by HeartDB's `migrateAll()` method.
+ */
+export interface MigrationProgress {
+  /**
+   * Number of documents in the database when migration started.
+   */
+  total: number;
+
+  /**
+   * Number of documents checked for being outdated.
+   */
+  checked: number;
+
+  /**
+   * Number of outdated documents rewritten at the latest schema version.
+   */
+  migrated: number;
+
+  /**
+   * Number of outdated documents which failed to be rewritten, such as due to
+   * conflicts or validation errors.
+   */
+  failed: number;
+}
+
+/**
+ * HeartDB method through which a document is written. Other writing methods,
+ * such as `update()`, write through these. Documents removed by `remove()` or
+ * `removeWhere()` are written with the "remove" operation.
+ */
+export type WriteOperation =
+  | "put"
+  | "remove"
+  | "post"
+  | "bulkDocs"
+  | "transaction"
+  | "putAttachment"
+  | "removeAttachment";
+
+/**
+ * Context passed to write middleware hooks.
+ */
+export interface WriteContext {
+  /**
+   * Method through which the document is written.
+   */
+  operation: WriteOperation;
+}
+
+/**
+ * Middleware intercepts HeartDB reads and writes. Every hook is optional.
+ * @template DocType Type of document read and written.
+ */
+export interface Middleware<DocType extends Document = Document> {
+  /**
+   * Called before a document is written, and before it's validated. May return
+   * (or resolve to) a replacement document, or undefined to keep the document
+   * as is. Throwing (or rejecting) rejects the write.
+   */
+  beforeWrite?: (
+    doc: DocType,
+    context: WriteContext,
+  ) => PromiseOrValue<DocType | void>;
+
+  /**
+   * Called after a document has been written and its change settled, before
+   * the writing method's Promise resolves.
+   */
+  afterWrite?: (
+    change: ChangesResponseChange<DocType>,
+    context: WriteContext,
+  ) => PromiseOrValue<void>;
+
+  /**
+   * Called with each document read by `get()`, LiveDoc or LiveQuery, after any
+   * migration. May return a replacement document, or undefined to keep the
+   * document as is. Must be synchronous.
+   */
+  onRead?: (doc: DocType & Existing) => (DocType & Existing) | void;
+}
+
+/**
+ * Fields changed by a change, keyed by field name, with their values before
+ * and after. Missing fields have undefined values.
+ */
+export type AuditDiff = Record<string, { before: unknown; after: unknown }>;
+
+/**
+ * Record of a single change to a document, kept by an AuditLog.
+ */
+export interface AuditEntry {
+  /**
+   * Id of the changed document.
+   */
+  docId: PouchDB.Core.DocumentId;
+
+  /**
+   * Revision written by the change.
+   */
+  rev: PouchDB.Core.RevisionId;
+
+  /**
+   * Time of the change, in milliseconds since the epoch.
+   */
+  timestamp: number;
+
+  /**
+   * Instance id of the HeartDB (and so the execution context) which made the
+   * change.
+   */
+  contextId: string;
+
+  /**
+   * HeartDB method through which the change was written.
+   */
+  operation: WriteOperation;
+
+  /**
+   * Whether the change deleted the document.
+   */
+  deleted: boolean;
+
+  /**
+   * Id of the user (or other actor) who made the change, if known.
+   */
+  actor?: string;
+
+  /**
+   * Fields changed, if diffs are recorded and the previous revision was
+   * available.
+   */
+  diff?: AuditDiff;
+}
+
+/**
+ * Metadata of a document's attachment, as listed in its `_attachments` field.
+ */
+export interface AttachmentMeta {
+  /**
+   * MIME type of the attachment.
+   */
+  content_type: string;
+
+  /**
+   * Digest of the attachment's contents, which changes when they change.
+   */
+  digest: string;
+
+  /**
+   * Size of the attachment in bytes.
+   */
+  length: number;
+}
+
+/**
+ * Result of a LiveAggregate. Values are undefined where the aggregate has no
+ * numeric values to operate on (e.g. the minimum of no documents).
+ */
+export interface AggregateResult {
+  /**
+   * Aggregate value over all documents.
+   */
+  value: number | undefined;
+
+  /**
+   * Aggregate values by group key, if grouping. Groups without documents are
+   * omitted.
+   */
+  groups: Record<string, number | undefined>;
+}
+
+/**
+ * Availability of undo and redo in an UndoManager, for enabling UI controls.
+ */
+export interface UndoState {
+  /**
+   * Whether there's a group of writes which can be undone.
+   */
+  canUndo: boolean;
+
+  /**
+   * Whether there's a group of undone writes which can be redone.
+   */
+  canRedo: boolean;
+}
@@ -0,0 +1,470 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Undo and redo of writes made through a HeartDB.
+ */
+
+// Internal dependencies.
+import { CloseableEventTarget } from "./closeable-event-target";
+import { ConflictError, NotFoundError } from "./errors";
+import {
+  ChangesResponseChange,
+  UndoStateChangeEvent,
+  UndoStateChangeEventListener,
+} from "./events";
+import { HeartDB } from "./heartdb";
+import { getPreviousRevision } from "./revisions";
+import { Document, Existing, PromiseOrValue } from "./types";
+
+/**
+ * Default maximum number of groups of writes which can be undone.
+ */
+const DEFAULT_UNDO_LIMIT = 100;
+
+/**
+ * Options for configuring an UndoManager.
+ */
+export interface UndoManagerOptions {
+  /**
+   * Maximum number of groups of writes which can be undone. Older groups are
+   * forgotten. Defaults to 100.
+   */
+  limit?: number;
+}
+
+/**
+ * A step which, when applied, writes a document's target state on top of its
+ * current revision. Applying a step yields the inverse step, which restores
+ * the state that was current.
+ */
+interface UndoStep<DocType extends Document> {
+  /**
+   * Id of the document.
+   */
+  docId: PouchDB.Core.DocumentId;
+
+  /**
+   * Revision of the document expected to be current when applying the step.
+   */
+  current: DocType & Existing;
+
+  /**
+   * State to restore, or undefined if the document should not exist.
+   */
+  target: (DocType & Existing) | undefined;
+}
+
+/**
+ * Group of steps which are undone or redone together.
+ */
+type UndoGroup<DocType extends Document> = UndoStep<DocType>[];
+
+/**
+ * An UndoManager records writes made through a HeartDB (including `put()`,
+ * `update()` and `remove()`), along with the state each replaced, so that they
+ * can be undone and redone. Undoing and redoing write the previous state as a
+ * new revision, so they're followed by LiveQuery and LiveDoc like any other
+ * write. If a document has been changed since, undoing or redoing fails with a
+ * ConflictError rather than overwriting the change.
+ *
+ * Usage:
+ *
+ * ```
+ *   const undoManager = heartDb.undoManager();
+ *
+ *   // Keep UI buttons up to date.
+ *   undoManager.onStateChange((stateChangeEvent) => {
+ *     const { canUndo, canRedo } = stateChangeEvent.detail;
+ *     // ...enable/disable buttons...
+ *   });
+ *
+ *   // Group writes so that they're undone together.
+ *   await undoManager.transaction(async () => {
+ *     await heartDb.update(taskId, (task) => ({ ...task, done: true }));
+ *     await heartDb.remove(reminderId);
+ *   });
+ *
+ *   await undoManager.undo();
+ *   await undoManager.redo();
+ * ```
+ *
+ * @emits undostatechange When the availability of undo or redo may change.
+ * @template DocType Type of document in the HeartDB.
+ */
+export class UndoManager<
+  DocType extends Document = Document,
+> extends CloseableEventTarget {
+  /**
+   * HeartDB instance whose writes are recorded.
+   */
+  readonly heartDb: HeartDB<DocType>;
+
+  /**
+   * Options this instance was configured with.
+   */
+  readonly options: UndoManagerOptions;
+
+  /**
+   * Groups of steps which undo recorded writes, most recent last.
+   */
+  private readonly undoStack: UndoGroup<DocType>[] = [];
+
+  /**
+   * Groups of steps which redo undone writes, most recently undone last.
+   */
+  private readonly redoStack: UndoGroup<DocType>[] = [];
+
+  /**
+   * Group collecting steps for the transaction in progress, if any.
+   */
+  private transactionGroup?: UndoGroup<DocType>;
+
+  /**
+   * Revisions which the undo or redo in progress is writing over, keyed by
+   * document id. The revisions it writes are children of these, and so aren't
+   * recorded. Since a revision can only be written over once, other writes
+   * made meanwhile are still recorded.
+   */
+  private readonly applyingRevs = new Map<
+    PouchDB.Core.DocumentId,
+    PouchDB.Core.RevisionId
+  >();
+
+  /**
+   * Promise for the latest queued undo or redo, so that they're applied one at
+   * a time.
+   */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Function to remove the middleware which records writes.
+   */
+  private removeMiddleware?: () => void;
+
+  /**
+   * Disconnect function for the HeartDB close listener.
+   */
+  private closeDisconnect?: () => void;
+
+  /**
+   * @param heartDb HeartDB instance whose writes to record.
+   * @param options Optional configuration.
+   */
+  constructor(heartDb: HeartDB<DocType>, options: UndoManagerOptions = {}) {
+    super();
+    this.heartDb = heartDb;
+    this.options = options;
+
+    this.removeMiddleware = heartDb.use({
+      afterWrite: (change) => this.record(change),
+    });
+
+    this.closeDisconnect = heartDb.addEventListener("close", () => {
+      this.close();
+    });
+  }
+
+  /**
+   * Stop recording writes, forget recorded writes and remove all listeners.
+   */
+  override close() {
+    if (this.closed) {
+      return;
+    }
+    this.removeMiddleware?.call(null);
+    this.removeMiddleware = undefined;
+    this.closeDisconnect?.call(null);
+    this.closeDisconnect = undefined;
+    this.undoStack.length = 0;
+    this.redoStack.length = 0;
+    super.close();
+  }
+
+  /**
+   * Whether there's a group of writes which can be undone.
+   */
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Whether there's a group of undone writes which can be redone.
+   */
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Listen for changes in the availability of undo or redo.
+   * @param listener Undo state change event listener to add.
+   * @returns Disconnect function to unsubscribe the listener.
+   */
+  onStateChange(listener: UndoStateChangeEventListener): () => void {
+    return this.addEventListener("undostatechange", listener);
+  }
+
+  /**
+   * Run a callback, recording all writes it makes as a single group which is
+   * undone and redone together. Nested transactions join the outer one.
+   * @param callback Function which makes writes. May be asynchronous.
+   * @returns Promise that resolves with the callback's result.
+   */
+  async transaction<ResultType>(
+    callback: () => PromiseOrValue<ResultType>,
+  ): Promise<ResultType> {
+    if (this.transactionGroup) {
+      return callback();
+    }
+
+    const group: UndoGroup<DocType> = [];
+    this.transactionGroup = group;
+    try {
+      return await callback();
+    } finally {
+      this.transactionGroup = undefined;
+      if (group.length) {
+        this.pushUndoGroup(group);
+      }
+    }
+  }
+
+  /**
+   * Undo the most recent group of writes, by writing the state each replaced.
+   * @returns Promise that resolves with whether there was a group to undo.
+   * @throws {ConflictError} If a document has changed since it was written.
+   */
+  undo(): Promise<boolean> {
+    return this.enqueue(() => this.applyGroup(this.undoStack, this.redoStack));
+  }
+
+  /**
+   * Redo the most recently undone group of writes.
+   * @returns Promise that resolves with whether there was a group to redo.
+   * @throws {ConflictError} If a document has changed since it was undone.
+   */
+  redo(): Promise<boolean> {
+    return this.enqueue(() => this.applyGroup(this.redoStack, this.undoStack));
+  }
+
+  /**
+   * Forget all recorded and undone writes.
+   */
+  clear() {
+    this.undoStack.length = 0;
+    this.redoStack.length = 0;
+    this.dispatchStateChange();
+  }
+
+  /**
+   * Record a settled write, along with the state it replaced. Writes whose
+   * previous revision is no longer available can't be undone, so are skipped.
+   * @param change Settled change to record.
+   */
+  private async record(change: ChangesResponseChange<DocType>) {
+    if (this.closed) {
+      return;
+    }
+    const applyingRev = this.applyingRevs.get(change.id);
+
+    const current = change.doc as DocType & Existing;
+    let target: (DocType & Existing) | undefined;
+    try {
+      target = await getPreviousRevision(
+        this.heartDb.pouchDb,
+        change.id,
+        current._rev,
+      );
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return;
+      }
+      throw error;
+    }
+
+    // Skip revisions written by undo or redo itself.
+    if (applyingRev !== undefined && target?._rev === applyingRev) {
+      return;
+    }
+
+    const step: UndoStep<DocType> = { docId: change.id, current, target };
+
+    if (!this.transactionGroup) {
+      this.pushUndoGroup([step]);
+      return;
+    }
+
+    // A document written more than once in a transaction is restored to its
+    // state before the first write.
+    const existingStep = this.transactionGroup.find(
+      ({ docId }) => docId === step.docId,
+    );
+    if (existingStep) {
+      existingStep.current = step.current;
+    } else {
+      this.transactionGroup.push(step);
+    }
+  }
+
+  /**
+   * Push a group of recorded writes onto the undo stack, forgetting the oldest
+   * if over the limit. New writes can't be redone over, so the redo stack is
+   * cleared.
+   * @param group Group of steps which undo the writes.
+   */
+  private pushUndoGroup(group: UndoGroup<DocType>) {
+    if (this.closed) {
+      return;
+    }
+    this.undoStack.push(group);
+    const limit = this.options.limit ?? DEFAULT_UNDO_LIMIT;
+    if (this.undoStack.length > limit) {
+      this.undoStack.splice(0, this.undoStack.length - limit);
+    }
+    this.redoStack.length = 0;
+    this.dispatchStateChange();
+  }
+
+  /**
+   * Queue an undo or redo, to run after any already queued.
+   * @param task Function performing the undo or redo.
+   * @returns Promise that resolves with the task's result.
+   */
+  private enqueue<ResultType>(
+    task: () => Promise<ResultType>,
+  ): Promise<ResultType> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Apply the most recent group of steps from one stack, pushing the inverse
+   * steps onto the other. Steps which fail are left on the original stack.
+   * @param fromStack Stack from which to take the group.
+   * @param toStack Stack onto which to push the inverse group.
+   * @returns Promise that resolves with whether there was a group to apply.
+   * @throws {ConflictError} If a document has changed since the group's write.
+   */
+  private async applyGroup(
+    fromStack: UndoGroup<DocType>[],
+    toStack: UndoGroup<DocType>[],
+  ): Promise<boolean> {
+    const group = fromStack[fromStack.length - 1];
+    if (!group || this.closed) {
+      return false;
+    }
+
+    // Check that no document has changed since, before writing any of them.
+    const { rows } = await this.heartDb.pouchDb.allDocs({
+      keys: group.map(({ docId }) => docId),
+    });
+    rows.forEach((row, index) => {
+      const { docId, current } = group[index];
+      const rev = "value" in row ? row.value.rev : undefined;
+      if (rev !== current._rev) {
+        throw new ConflictError(
+          `Document "${docId}" has changed since it was written.`,
+        );
+      }
+    });
+
+    const docs = group.map(
+      ({ docId, current, target }) =>
+        (!target || target._deleted
+          ? { _id: docId, _rev: current._rev, _deleted: true }
+          : { ...target, _rev: current._rev }) as DocType,
+    );
+
+    for (const { docId, current } of group) {
+      this.applyingRevs.set(docId, current._rev);
+    }
+    let results;
+    try {
+      results = await this.heartDb.bulkDocs(docs);
+    } finally {
+      for (const { docId } of group) {
+        this.applyingRevs.delete(docId);
+      }
+    }
+
+    const inverseGroup: UndoGroup<DocType> = [];
+    const failedGroup: UndoGroup<DocType> = [];
+    let firstError: Error | undefined;
+    results.forEach((result, index) => {
+      const step = group[index];
+      if (result.ok) {
+        const written = result.change.doc as DocType & Existing;
+        if (step.target) {
+          this.rebase(step.docId, step.target._rev, written);
+        }
+        inverseGroup.push({
+          docId: step.docId,
+          current: written,
+          target: step.current,
+        });
+      } else {
+        failedGroup.push(step);
+        firstError = firstError ?? result.error;
+      }
+    });
+
+    // Writes recorded meanwhile may have been pushed on top of the group, so
+    // replace the group where it is, unless it has since been forgotten.
+    const groupIndex = fromStack.indexOf(group);
+    if (groupIndex >= 0) {
+      fromStack.splice(
+        groupIndex,
+        1,
+        ...(failedGroup.length ? [failedGroup] : []),
+      );
+    }
+    if (inverseGroup.length) {
+      toStack.push(inverseGroup);
+    }
+    this.dispatchStateChange();
+
+    if (firstError) {
+      throw firstError;
+    }
+    return true;
+  }
+
+  /**
+   * Update recorded steps which expect a document to be at a revision which
+   * has been restored by a new revision, to expect the new revision instead.
+   * Otherwise, after undoing a write, undoing the write before it would fail
+   * as if the document had been changed by someone else.
+   * @param docId Id of the document.
+   * @param restoredRev Revision whose state was restored.
+   * @param written New revision with the restored state.
+   */
+  private rebase(
+    docId: PouchDB.Core.DocumentId,
+    restoredRev: PouchDB.Core.RevisionId,
+    written: DocType & Existing,
+  ) {
+    for (const group of [...this.undoStack, ...this.redoStack]) {
+      for (const step of group) {
+        if (step.docId === docId && step.current._rev === restoredRev) {
+          step.current = written;
+        }
+      }
+    }
+  }
+
+  /**
+   * Dispatch the current availability of undo and redo.
+   */
+  private dispatchStateChange() {
+    if (!this.closed) {
+      this.dispatchEvent(
+        new UndoStateChangeEvent({
+          canUndo: this.canUndo,
+          canRedo: this.canRedo,
+        }),
+      );
+    }
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Document validation against predicates and schema descriptors.
+ */
+
+// Internal dependencies.
+import { collate } from "./collate";
+import {
+  Document,
+  SchemaDescriptor,
+  SchemaType,
+  ValidationIssue,
+  Validator,
+} from "./types";
+
+/**
+ * Join a parent path and a child key into a dotted path.
+ * @param path Parent path, or empty string for the root.
+ * @param key Child property name or array index.
+ * @returns Dotted path.
+ */
+function joinPath(path: string, key: string | number): string {
+  return path ? `${path}.${key}` : `${key}`;
+}
+
+/**
+ * Determine whether a value is of the named schema type.
+ * @param value Value to check.
+ * @param type Schema type name.
+ * @returns Whether the value is of that type.
+ */
+function isOfType(value: unknown, type: SchemaType): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return !!value && typeof value === "object" && !Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && isFinite(value);
+    case "boolean":
+    case "string":
+      return typeof value === type;
+  }
+  return false;
+}
+
+/**
+ * Validate a value against a schema descriptor.
+ * @param value Value to validate.
+ * @param schema Schema descriptor.
+ * @param path Dotted path of the value within the document.
+ * @returns List of issues, which is empty if the value is valid.
+ */
+export function validateSchema(
+  value: unknown,
+  schema: SchemaDescriptor,
+  path = "",
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const issue = (message: string) => issues.push({ path, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => isOfType(value, type))) {
+      issue(`must be of type ${types.join(" or ")}.`);
+
+      // Further keywords are moot if the type is wrong.
+      return issues;
+    }
+  }
+
+  if (
+    schema.enum !== undefined &&
+    !schema.enum.some((option) => collate(option, value) === 0)
+  ) {
+    issue("must be one of the allowed values.");
+  }
+
+  if ("const" in schema && collate(schema.const, value) !== 0) {
+    issue("must equal the constant value.");
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issue(`must be at least ${schema.minimum}.`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issue(`must be at most ${schema.maximum}.`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issue(`must be at least ${schema.minLength} characters.`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issue(`must be at most ${schema.maxLength} characters.`);
+    }
+    if (
+      schema.pattern !== undefined &&
+      !new RegExp(schema.pattern).test(value)
+    ) {
+      issue(`must match pattern ${schema.pattern}.`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issue(`must have at least ${schema.minItems} items.`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issue(`must have at most ${schema.maxItems} items.`);
+    }
+    const { items } = schema;
+    if (items) {
+      value.forEach((item, index) => {
+        issues.push(...validateSchema(item, items, joinPath(path, index)));
+      });
+    }
+  }
+
+  if (isOfType(value, "object")) {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) {
+        issues.push({ path: joinPath(path, key), message: "is required." });
+      }
+    }
+
+    for (const key of Object.keys(object)) {
+      if (object[key] === undefined) {
+        continue;
+      }
+      if (key in properties) {
+        issues.push(
+          ...validateSchema(object[key], properties[key], joinPath(path, key)),
+        );
+      } else if (
+        schema.additionalProperties === false &&
+        !(path === "" && key.startsWith("_"))
+      ) {
+        issues.push({
+          path: joinPath(path, key),
+          message: "is not an allowed property.",
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a document with a validator.
+ * @param doc Document to validate.
+ * @param validator Predicate or schema descriptor.
+ * @returns List of issues, which is empty if the document is valid.
+ */
+export function runValidator<DocType extends Document>(
+  doc: DocType,
+  validator: Validator<DocType>,
+): ValidationIssue[] {
+  if (typeof validator !== "function") {
+    return validateSchema(doc, validator);
+  }
+
+  const result = validator(doc);
+  if (Array.isArray(result)) {
+    return result;
+  }
+  return result ? [] : [{ path: "", message: "failed validation." }];
+}
@@ -0,0 +1,132 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for attachment support.
+ */
+
+// External dependencies.
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+// Internal dependencies.
+import { ConflictError } from "../src/errors";
+import { HeartDB } from "../src/heartdb";
+import { LiveDoc } from "../src/live-doc";
+import { Document, WriteOperation } from "../src/types";
+
+// Test dependencies.
+import { TestDbFactory } from "./test-db-factory";
+
+interface Note extends Document {
+  title?: string;
+}
+
+/**
+ * Base64 encoded attachment contents.
+ */
+const MILK = "TWlsaw==";
+const EGGS = "RWdncw==";
+
+describe("HeartDB attachments", () => {
+  const testDbFactory = new TestDbFactory<Note>({
+    dbNamePrefix: "TEST_HeartDB_attachments",
+  });
+
+  let heartDb: HeartDB<Note>;
+
+  beforeEach(async () => {
+    heartDb = await testDbFactory.createDb();
+    await heartDb.put({ _id: "NOTE", title: "Shopping" });
+  });
+
+  afterEach(() => {
+    heartDb.close();
+  });
+
+  it("should put and get attachments with settled changes", async () => {
+    const operations: WriteOperation[] = [];
+    heartDb.use({
+      afterWrite: (_, { operation }) => {
+        operations.push(operation);
+      },
+    });
+
+    const change = await heartDb.putAttachment(
+      "NOTE",
+      "list.txt",
+      MILK,
+      "text/plain",
+    );
+    expect(change.doc._rev).toMatch(/^2-/);
+    expect(change.doc._attachments?.["list.txt"]).toMatchObject({
+      content_type: "text/plain",
+      length: 4,
+      stub: true,
+    });
+    expect(change.doc.title).toBe("Shopping");
+
+    const data = await heartDb.getAttachment("NOTE", "list.txt");
+    expect(data?.toString()).toBe("Milk");
+    expect(await heartDb.getAttachment("NOTE", "missing.txt")).toBeUndefined();
+    expect(await heartDb.getAttachment("MISSING", "list.txt")).toBeUndefined();
+
+    await heartDb.removeAttachment("NOTE", "list.txt");
+    expect(await heartDb.getAttachment("NOTE", "list.txt")).toBeUndefined();
+    expect(await heartDb.removeAttachment("NOTE", "list.txt")).toBeUndefined();
+
+    expect(operations).toEqual(["putAttachment", "removeAttachment"]);
+  });
+
+  it("should create documents when putting attachments", async () => {
+    await heartDb.putAttachment("NEW", "a.txt", "QQ==", "text/plain");
+    expect((await heartDb.getAttachment("NEW", "a.txt"))?.toString()).toBe("A");
+  });
+
+  it("should reject attachments put at a stale revision", async () => {
+    const { _rev } = (await heartDb.get("NOTE"))!;
+    await heartDb.update("NOTE", (note) => note && { ...note, title: "Food" });
+
+    await expect(
+      heartDb.putAttachment("NOTE", "list.txt", MILK, "text/plain", _rev),
+    ).rejects.toThrow(ConflictError);
+  });
+
+  it("should expose attachments on LiveDoc", async () => {
+    const liveDoc = new LiveDoc(heartDb, "NOTE");
+    await new Promise((resolve) => liveDoc.onSet(resolve));
+    expect(liveDoc.attachments).toEqual({});
+    expect(await liveDoc.getAttachment("list.txt")).toBeUndefined();
+
+    const attachmentChanges: string[][] = [];
+    liveDoc.onAttachmentChange((attachmentChangeEvent) => {
+      attachmentChanges.push(attachmentChangeEvent.detail);
+    });
+
+    await heartDb.putAttachment("NOTE", "list.txt", MILK, "text/plain");
+    expect(liveDoc.attachments["list.txt"].length).toBe(4);
+    const first = liveDoc.getAttachment("list.txt");
+    expect(liveDoc.getAttachment("list.txt")).toBe(first);
+    expect((await first)?.toString()).toBe("Milk");
+
+    // Changing other fields keeps the loaded contents.
+    await heartDb.update("NOTE", (note) => note && { ...note, title: "Food" });
+    expect(liveDoc.getAttachment("list.txt")).toBe(first);
+
+    await heartDb.putAttachment("NOTE", "list.txt", EGGS, "text/plain");
+    const second = liveDoc.getAttachment("list.txt");
+    expect(second).not.toBe(first);
+    expect((await second)?.toString()).toBe("Eggs");
+
+    await heartDb.removeAttachment("NOTE", "list.txt");
+    expect(liveDoc.attachments).toEqual({});
+
+    expect(attachmentChanges).toEqual([
+      ["list.txt"],
+      ["list.txt"],
+      ["list.txt"],
+    ]);
+
+    liveDoc.close();
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for AuditLog and HeartDB::history().
+ */
+
+// External dependencies.
+import PouchDB from "pouchdb";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+// Internal dependencies.
+import { AuditLog } from "../src/audit-log";
+import { InvalidStateError } from "../src/errors";
+import { HeartDB } from "../src/heartdb";
+import { InProcessTransport } from "../src/transport";
+import { AuditEntry, Document } from "../src/types";
+
+// Test dependencies.
+import { TestDbFactory } from "./test-db-factory";
+
+interface Task extends Document {
+  title?: string;
+  done?: boolean;
+}
+
+describe("HeartDB::history()", () => {
+  let actor: string | undefined;
+
+  const testDbFactory = new TestDbFactory<Task>({
+    dbNamePrefix: "TEST_HeartDB_history",
+    heartDbOptions: { audit: { actor: () => actor, diff: true } },
+  });
+
+  let heartDb: HeartDB<Task>;
+
+  beforeEach(async () => {
+    actor = undefined;
+    heartDb = await testDbFactory.createDb();
+  });
+
+  afterEach(() => {
+    heartDb.close();
+  });
+
+  it("should record the timeline of a document", async () => {
+    const before = Date.now();
+
+    actor = "USER_A";
+    const created = await heartDb.put({ _id: "TASK", title: "Write tests" });
+    actor = "USER_B";
+    const updated = await heartDb.update(
+      "TASK",
+      (doc) => doc && { ...doc, done: true },
+    );
+    const removed = await heartDb.remove("TASK");
+
+    const history = await heartDb.history("TASK");
+
+    expect(history.map(({ rev }) => rev)).toEqual([
+      created.doc._rev,
+      updated?.doc._rev,
+      removed?.doc._rev,
+    ]);
+    expect(history.map(({ actor }) => actor)).toEqual([
+      "USER_A",
+      "USER_B",
+      "USER_B",
+    ]);
+    expect(history.map(({ deleted }) => deleted)).toEqual([false, false, true]);
+    expect(history.map(({ operation }) => operation)).toEqual([
+      "put",
+      "put",
+      "remove",
+    ]);
+    for (const entry of history) {
+      expect(entry.docId).toBe("TASK");
+      expect(entry.contextId).toBe(heartDb.instanceId);
+      expect(entry.timestamp).toBeGreaterThanOrEqual(before);
+    }
+  });
+
+  it("should record the fields changed", async () => {
+    await heartDb.put({ _id: "TASK", title: "Write tests" });
+    await heartDb.update("TASK", (doc) => doc && { ...doc, done: true });
+    await heartDb.remove("TASK");
+
+    const history = await heartDb.history("TASK");
+
+    expect(history.map(({ diff }) => diff)).toEqual([
+      {
+        _id: { before: undefined, after: "TASK" },
+        title: { before: undefined, after: "Write tests" },
+      },
+      { done: { before: undefined, after: true } },
+      {
+        _deleted: { before: undefined, after: true },
+        title: { before: "Write tests", after: undefined },
+        done: { before: true, after: undefined },
+      },
+    ]);
+  });
+
+  it("should record bulk writes", async () => {
+    await heartDb.bulkDocs([{ _id: "TASK_1" }, { _id: "TASK_2" }]);
+
+    const [entry] = await heartDb.history("TASK_2");
+    expect(entry.operation).toBe("bulkDocs");
+    expect(await heartDb.history("TASK_1")).toHaveLength(1);
+  });
+
+  it("should keep timelines of similarly named documents apart", async () => {
+    await heartDb.put({ _id: "TASK" });
+    await heartDb.put({ _id: "TASK/1" });
+    await heartDb.put({ _id: "TASK1" });
+
+    expect(await heartDb.history("TASK")).toHaveLength(1);
+    expect(await heartDb.history("TASK/1")).toHaveLength(1);
+    expect(await heartDb.history("MISSING")).toEqual([]);
+  });
+});
+
+describe("AuditLog", () => {
+  let testCount = 0;
+  let heartDbs: HeartDB<Task>[] = [];
+
+  afterEach(() => {
+    for (const heartDb of heartDbs) {
+      heartDb.close();
+    }
+    heartDbs = [];
+  });
+
+  /**
+   * Create a HeartDB on a fresh database.
+   * @param options HeartDB options.
+   * @returns The HeartDB.
+   */
+  function createHeartDb(
+    options: ConstructorParameters<typeof HeartDB>[1] = {},
+  ) {
+    const name = `TEST_AuditLog_${testCount}`;
+    const heartDb = new HeartDB<Task>(
+      new PouchDB<Task>(name, { adapter: "memory" }),
+      { transport: new InProcessTransport(name), ...options },
+    );
+    heartDbs.push(heartDb);
+    return heartDb;
+  }
+
+  beforeEach(() => {
+    testCount++;
+  });
+
+  it("should not be kept unless enabled", async () => {
+    const heartDb = createHeartDb();
+    expect(heartDb.auditLog).toBeUndefined();
+    await expect(heartDb.history("TASK")).rejects.toBeInstanceOf(
+      InvalidStateError,
+    );
+    await expect(heartDb.history("TASK")).rejects.toThrow(
+      "Auditing is not enabled.",
+    );
+  });
+
+  it("should store entries in the provided database", async () => {
+    const database = new PouchDB<AuditEntry>(
+      `TEST_AuditLog_custom_${testCount}`,
+      { adapter: "memory" },
+    );
+    const heartDb = createHeartDb({ audit: { database } });
+
+    await heartDb.put({ _id: "TASK" });
+
+    expect(heartDb.auditLog).toBeInstanceOf(AuditLog);
+    expect(heartDb.auditLog?.database).toBe(database);
+    const { rows } = await database.allDocs({ include_docs: true });
+    expect(rows.map(({ doc }) => doc?.docId)).toEqual(["TASK"]);
+    expect((await heartDb.history("TASK"))[0].diff).toBeUndefined();
+
+    await database.destroy();
+  });
+
+  it("should record each change once, by the context making it", async () => {
+    const writer = createHeartDb({ audit: true });
+    const reader = createHeartDb({ audit: true });
+
+    await writer.put({ _id: "TASK" });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const history = await reader.history("TASK");
+    expect(history).toHaveLength(1);
+    expect(history[0].contextId).toBe(writer.instanceId);
+    expect(writer.instanceId).not.toBe(reader.instanceId);
+  });
+
+  it("should stop recording when closed", async () => {
+    const heartDb = createHeartDb({ audit: true });
+    const auditLog = new AuditLog(heartDb, {
+      database: new PouchDB<AuditEntry>(`TEST_AuditLog_closed_${testCount}`, {
+        adapter: "memory",
+      }),
+    });
+
+    await heartDb.put({ _id: "TASK_1" });
+    auditLog.close();
+    await heartDb.put({ _id: "TASK_2" });
+
+    expect(await auditLog.history("TASK_1")).toHaveLength(1);
+    expect(await auditLog.history("TASK_2")).toHaveLength(0);
+    expect(await heartDb.history("TASK_2")).toHaveLength(1);
+
+    await auditLog.database.destroy();
+  });
+});
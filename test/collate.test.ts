@@ -0,0 +1,66 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for collation and document sorting.
+ */
+
+// External dependencies.
+import { describe, expect, it } from "vitest";
+
+// Internal dependencies.
+import { collate, createDocComparator, getFieldValue } from "../src/collate";
+
+describe("collate()", () => {
+  it("should order values by type", () => {
+    const values = [{ a: 1 }, ["a"], "a", 1, true, false, null];
+    const sorted = [...values].sort(collate);
+    expect(sorted).toEqual([null, false, true, 1, "a", ["a"], { a: 1 }]);
+  });
+
+  it("should treat undefined as null", () => {
+    expect(collate(undefined, null)).toBe(0);
+  });
+
+  it("should compare values of the same type", () => {
+    expect(collate(1, 2)).toBeLessThan(0);
+    expect(collate("b", "a")).toBeGreaterThan(0);
+    expect(collate([1, 2], [1, 2, 3])).toBeLessThan(0);
+    expect(collate({ a: 2 }, { a: 1 })).toBeGreaterThan(0);
+    expect(collate({ a: 1 }, { b: 1 })).toBeLessThan(0);
+  });
+});
+
+describe("getFieldValue()", () => {
+  it("should get nested fields", () => {
+    const doc = { a: { b: { c: 1 } } };
+    expect(getFieldValue(doc, "a.b.c")).toBe(1);
+    expect(getFieldValue(doc, "a.x.c")).toBeUndefined();
+  });
+});
+
+describe("createDocComparator()", () => {
+  const docs = [
+    { _id: "c", _rev: "1-a", rank: 1, name: "x" },
+    { _id: "a", _rev: "1-a", rank: 2, name: "y" },
+    { _id: "b", _rev: "1-a", rank: 1, name: "z" },
+  ];
+
+  it("should order by _id without a sort", () => {
+    const sorted = [...docs].sort(createDocComparator());
+    expect(sorted.map((doc) => doc._id)).toEqual(["a", "b", "c"]);
+  });
+
+  it("should order by sort fields, breaking ties by _id", () => {
+    const sorted = [...docs].sort(createDocComparator(["rank"]));
+    expect(sorted.map((doc) => doc._id)).toEqual(["b", "c", "a"]);
+  });
+
+  it("should honor sort directions", () => {
+    const sorted = [...docs].sort(
+      createDocComparator([{ rank: "desc" }, { name: "desc" }]),
+    );
+    expect(sorted.map((doc) => doc._id)).toEqual(["a", "b", "c"]);
+  });
+});
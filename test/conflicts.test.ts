@@ -0,0 +1,211 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for conflict detection and resolution.
+ */
+
+// External dependencies.
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+// Internal dependencies.
+import { lastWriterWins, mergeFields } from "../src/conflict-resolvers";
+import { ConflictError } from "../src/errors";
+import { HeartDB } from "../src/heartdb";
+import { LiveDoc } from "../src/live-doc";
+import { Document } from "../src/types";
+
+// Test dependencies.
+import { TestDbFactory } from "./test-db-factory";
+
+interface Task extends Document {
+  type: "task";
+  title: string;
+  done: boolean;
+  updatedAt: number;
+}
+
+describe("HeartDB conflicts", () => {
+  const testDbFactory = new TestDbFactory<Task>({
+    dbNamePrefix: "TEST_HeartDB_conflicts",
+  });
+
+  let heartDb: HeartDB<Task>;
+  let firstRev: string;
+
+  beforeEach(async () => {
+    heartDb = await testDbFactory.createDb();
+    const { doc } = await heartDb.put({
+      _id: "TASK",
+      type: "task",
+      title: "Write tests",
+      done: false,
+      updatedAt: 1,
+    });
+    firstRev = doc._rev;
+    await heartDb.update(
+      "TASK",
+      (task) => task && { ...task, title: "Write more tests", updatedAt: 2 },
+    );
+  });
+
+  afterEach(() => {
+    heartDb.close();
+  });
+
+  /**
+   * Write a revision which conflicts with the winning revision, as if it had
+   * been replicated from elsewhere, and wait for its change. Both revisions
+   * follow the first revision.
+   * @param fields Fields to change from the first revision.
+   * @param revHash Hash of the conflicting revision. Since PouchDB picks the
+   * winner among revisions of the same generation by comparing hashes, the
+   * default loses.
+   */
+  async function writeConflict(fields: Partial<Task>, revHash = "0") {
+    const changed = new Promise<void>((resolve) => {
+      const disconnect = heartDb.onChange((changeEvent) => {
+        if (changeEvent.detail.doc._conflicts?.length) {
+          disconnect();
+          resolve();
+        }
+      });
+    });
+    const first = await heartDb.pouchDb.get("TASK", { rev: firstRev });
+    await heartDb.pouchDb.bulkDocs(
+      [
+        {
+          ...first,
+          ...fields,
+          _rev: `2-${revHash}`,
+          _revisions: { start: 2, ids: [revHash, firstRev.split("-")[1]] },
+        },
+      ],
+      { new_edits: false },
+    );
+    await changed;
+  }
+
+  it("should surface conflicts on LiveDoc", async () => {
+    const liveDoc = new LiveDoc(heartDb, "TASK");
+    await new Promise((resolve) => liveDoc.onSet(resolve));
+    expect(liveDoc.conflicts).toEqual([]);
+
+    const conflicted = new Promise<string[]>((resolve) =>
+      liveDoc.onConflict((conflictEvent) => resolve(conflictEvent.detail)),
+    );
+    await writeConflict({ done: true });
+
+    expect(await conflicted).toEqual(["2-0"]);
+    expect(liveDoc.conflicts).toEqual(["2-0"]);
+    expect(liveDoc.doc?.title).toBe("Write more tests");
+
+    await heartDb.resolveConflicts("TASK");
+    expect(liveDoc.conflicts).toEqual([]);
+
+    liveDoc.close();
+  });
+
+  it("should list conflicts on documents from get()", async () => {
+    await writeConflict({ done: true });
+    expect((await heartDb.get("TASK"))?._conflicts).toEqual(["2-0"]);
+  });
+
+  it("should keep the winner without a resolver", async () => {
+    await writeConflict({ done: true });
+
+    const change = await heartDb.resolveConflicts("TASK");
+    expect(change?.doc._rev).toMatch(/^3-/);
+
+    const doc = await heartDb.get("TASK");
+    expect(doc?._conflicts).toBeUndefined();
+    expect(doc?.title).toBe("Write more tests");
+    expect(doc?.done).toBe(false);
+  });
+
+  it("should not store fields added on read", async () => {
+    heartDb.use({
+      onRead: (doc) => ({ ...doc, title: doc.title.toUpperCase() }),
+    });
+    await writeConflict({ done: true });
+
+    await heartDb.resolveConflicts("TASK", (revisions, base) => {
+      expect(revisions.map(({ title }) => title)).toEqual([
+        "Write more tests",
+        "Write tests",
+      ]);
+      expect(base?.title).toBe("Write tests");
+      return revisions[0];
+    });
+    expect((await heartDb.pouchDb.get("TASK")).title).toBe("Write more tests");
+
+    await writeConflict({ done: true }, "1");
+    await heartDb.resolveConflicts("TASK");
+    expect((await heartDb.pouchDb.get("TASK")).title).toBe("Write more tests");
+  });
+
+  it("should resolve nothing without conflicts", async () => {
+    expect(await heartDb.resolveConflicts("TASK")).toBeUndefined();
+  });
+
+  it("should keep losing revisions if writing the result fails", async () => {
+    await writeConflict({ done: true });
+
+    // Change the winning revision while resolving, so the write conflicts.
+    await expect(
+      heartDb.resolveConflicts("TASK", async (revisions) => {
+        await heartDb.update(
+          "TASK",
+          (task) => task && { ...task, title: "Changed" },
+        );
+        return { ...revisions[0], done: true };
+      }),
+    ).rejects.toThrow(ConflictError);
+
+    const doc = await heartDb.get("TASK");
+    expect(doc?.title).toBe("Changed");
+    expect(doc?._conflicts).toEqual(["2-0"]);
+    const loser = await heartDb.pouchDb.get("TASK", { rev: "2-0" });
+    expect(loser.done).toBe(true);
+  });
+
+  it("should resolve by last writer wins", async () => {
+    await writeConflict({ title: "Later title", updatedAt: 3 });
+
+    await heartDb.resolveConflicts("TASK", lastWriterWins<Task>("updatedAt"));
+    expect((await heartDb.get("TASK"))?.title).toBe("Later title");
+  });
+
+  it("should merge fields changed on each side", async () => {
+    await writeConflict({ done: true }, "z");
+
+    // The conflicting revision has the greater hash, so it wins.
+    expect((await heartDb.get("TASK"))?.title).toBe("Write tests");
+
+    await heartDb.resolveConflicts("TASK", mergeFields<Task>());
+    const doc = await heartDb.get("TASK");
+    expect(doc?.title).toBe("Write more tests");
+    expect(doc?.done).toBe(true);
+    expect(doc?.updatedAt).toBe(2);
+    expect(doc?.type).toBe("task");
+    expect(doc?._conflicts).toBeUndefined();
+  });
+
+  it("should use resolvers registered by type", async () => {
+    const unregister = heartDb.registerConflictResolver(
+      "task",
+      (revisions) => ({
+        ...revisions[0],
+        title: revisions.map(({ title }) => title).join(" / "),
+      }),
+    );
+    await writeConflict({ title: "Other title" });
+
+    await heartDb.resolveConflicts("TASK");
+    expect((await heartDb.get("TASK"))?.title).toBe(
+      "Write more tests / Other title",
+    );
+    unregister();
+  });
+});
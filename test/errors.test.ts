@@ -0,0 +1,69 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for custom errors.
+ */
+
+// External dependencies.
+import { describe, expect, it } from "vitest";
+
+// Internal dependencies.
+import { CloseableEventTarget } from "../src/closeable-event-target";
+import {
+  ClosedError,
+  ConflictError,
+  NotFoundError,
+  RetriesExhaustedError,
+  ValidationError,
+  normalizeError,
+} from "../src/errors";
+
+describe("normalizeError()", () => {
+  it("should convert PouchDB errors by status", () => {
+    const notFound = normalizeError({ status: 404, message: "missing" });
+    expect(notFound).toBeInstanceOf(NotFoundError);
+    expect((notFound as NotFoundError).message).toBe("missing");
+
+    const conflict = normalizeError({ status: 409, message: "conflict" });
+    expect(conflict).toBeInstanceOf(ConflictError);
+
+    const badRequest = normalizeError({ status: 400, message: "bad" });
+    expect(badRequest).toBeInstanceOf(ValidationError);
+  });
+
+  it("should retain the original error as the cause", () => {
+    const pouchError = { status: 409, message: "Document update conflict" };
+    const conflict = normalizeError(pouchError) as ConflictError;
+    expect(conflict.cause).toBe(pouchError);
+    expect(conflict.status).toBe(409);
+  });
+
+  it("should return other errors as is", () => {
+    const error = new Error("test error");
+    expect(normalizeError(error)).toBe(error);
+
+    const serverError = { status: 500, message: "server error" };
+    expect(normalizeError(serverError)).toBe(serverError);
+
+    expect(normalizeError(undefined)).toBeUndefined();
+  });
+
+  it("should not re-wrap normalized errors", () => {
+    const conflict = new ConflictError("conflict");
+    expect(normalizeError(conflict)).toBe(conflict);
+
+    const exhausted = new RetriesExhaustedError("exhausted", 3, conflict);
+    expect(normalizeError(exhausted)).toBe(exhausted);
+    expect(exhausted).toBeInstanceOf(ConflictError);
+  });
+});
+
+describe("ClosedError", () => {
+  it("should be thrown when adding listeners to a closed target", () => {
+    const eventTarget = new CloseableEventTarget();
+    eventTarget.close();
+    expect(() => eventTarget.onClose(() => {})).toThrow(ClosedError);
+  });
+});
@@ -13,10 +13,16 @@ import PouchDB from "pouchdb-node";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 
 // Internal dependencies.
+import {
+  ConflictError,
+  ImmutableFieldError,
+  RetriesExhaustedError,
+} from "../src/errors";
 import { ChangeEvent, ChangesResponseChange } from "../src/events";
 import { HeartDB } from "../src/heartdb";
 import { LiveQuery } from "../src/live-query";
-import type { Document } from "../src/types";
+import { InProcessTransport, NoopTransport } from "../src/transport";
+import type { Document, Existing } from "../src/types";
 
 // Test dependencies.
 import { TestDoc } from "./test-docs";
@@ -194,6 +200,23 @@ describe("HeartDB", () => {
     });
   });
 
+  describe("errors", () => {
+    it("should reject put() conflicts with a ConflictError", async () => {
+      const heartDb = new HeartDB(
+        new PouchDB<TestDoc>("TEST_errors_conflict", { adapter: "memory" }),
+      );
+
+      await heartDb.put({ _id: "TEST_ID", testField: "test value" });
+
+      const putPromise = heartDb.put({ _id: "TEST_ID", testField: "other" });
+
+      await expect(putPromise).rejects.toBeInstanceOf(ConflictError);
+      await expect(putPromise).rejects.toMatchObject({ status: 409 });
+
+      heartDb.close();
+    });
+  });
+
   describe("post()", () => {
     it("should resolve with the change event on insertion", async () => {
       const testDoc = {
@@ -216,6 +239,84 @@ describe("HeartDB", () => {
     });
   });
 
+  describe("bulkDocs()", () => {
+    it("should resolve with an empty array when given no docs", async () => {
+      const heartDb = new HeartDB(
+        new PouchDB("TEST_bulkDocs_empty", { adapter: "memory" }),
+      );
+
+      const results = await heartDb.bulkDocs([]);
+
+      expect(results).toEqual([]);
+
+      heartDb.close();
+    });
+
+    it("should resolve with the change events on insertion", async () => {
+      const heartDb = new HeartDB(
+        new PouchDB<TestDoc>("TEST_bulkDocs_insert", { adapter: "memory" }),
+      );
+
+      const changedIds = new Set<string>();
+      heartDb.onChange((changeEvent) => {
+        changedIds.add(changeEvent.detail.id);
+      });
+
+      const results = await heartDb.bulkDocs([
+        { _id: "TEST_ID_1", testField: "test value 1" },
+        { testField: "test value 2" },
+        { _id: "TEST_ID_3", testField: "test value 3" },
+      ]);
+
+      expect(results.length).toBe(3);
+      expect(results[0].ok).toBe(true);
+      expect(results[0].id).toBe("TEST_ID_1");
+      expect(results[2].id).toBe("TEST_ID_3");
+
+      // Every successful write should have been settled.
+      for (const result of results) {
+        if (!result.ok) {
+          throw new Error("Unexpected failed write");
+        }
+        expect(result.change.id).toBe(result.id);
+        expect(result.change.doc._rev).toMatch(/^1-/);
+        expect(changedIds.has(result.id)).toBe(true);
+      }
+
+      heartDb.close();
+    });
+
+    it("should report conflicts per document", async () => {
+      const heartDb = new HeartDB(
+        new PouchDB<TestDoc>("TEST_bulkDocs_conflict", { adapter: "memory" }),
+      );
+
+      await heartDb.put({ _id: "TEST_ID_1", testField: "test value 1" });
+
+      const results = await heartDb.bulkDocs([
+        { _id: "TEST_ID_1", testField: "conflicting value" },
+        { _id: "TEST_ID_2", testField: "test value 2" },
+      ]);
+
+      expect(results.length).toBe(2);
+
+      const [conflictResult, successResult] = results;
+
+      expect(conflictResult.ok).toBe(false);
+      expect(conflictResult.id).toBe("TEST_ID_1");
+      if (!conflictResult.ok) {
+        expect(conflictResult.error).toBeInstanceOf(ConflictError);
+      }
+
+      expect(successResult.ok).toBe(true);
+      if (successResult.ok) {
+        expect(successResult.change.doc.testField).toBe("test value 2");
+      }
+
+      heartDb.close();
+    });
+  });
+
   describe("get()", () => {
     it("should return undefind for missing document", async () => {
       const heartDb = new HeartDB(
@@ -314,6 +415,306 @@ describe("HeartDB", () => {
     });
   });
 
+  describe("update() conflict retry", () => {
+    it("should re-invoke the callback after a conflict", async () => {
+      const heartDb = new HeartDB(
+        new PouchDB<TestDoc>("TEST_update_retry", { adapter: "memory" }),
+      );
+
+      await heartDb.put({ _id: "TEST_ID", testField: "test value" });
+
+      const seenValues: (string | undefined)[] = [];
+
+      const updateChangeEvent = await heartDb.update(
+        "TEST_ID",
+        async (existingDoc) => {
+          seenValues.push(existingDoc?.testField);
+
+          if (seenValues.length === 1) {
+            // Simulate a concurrent write from another context.
+            await heartDb.pouchDb.put({
+              ...(existingDoc as TestDoc & Existing),
+              testField: "concurrent value",
+            });
+          }
+
+          return { testField: `${existingDoc?.testField} updated` };
+        },
+        { maxAttempts: 3 },
+      );
+
+      expect(seenValues).toEqual(["test value", "concurrent value"]);
+      expect(updateChangeEvent?.doc._rev).toMatch(/^3-/);
+      expect(updateChangeEvent?.doc.testField).toBe("concurrent value updated");
+
+      heartDb.close();
+    });
+
+    it("should throw RetriesExhaustedError when attempts run out", async () => {
+      const heartDb = new HeartDB(
+        new PouchDB<TestDoc>("TEST_update_exhausted", { adapter: "memory" }),
+        { updateRetryPolicy: { maxAttempts: 3, backoff: 1 } },
+      );
+
+      await heartDb.put({ _id: "TEST_ID", testField: "test value" });
+
+      let callCount = 0;
+
+      const updatePromise = heartDb.update("TEST_ID", async (existingDoc) => {
+        callCount++;
+
+        // Always conflict by writing before returning.
+        await heartDb.pouchDb.put({
+          ...(existingDoc as TestDoc & Existing),
+          testField: `concurrent value ${callCount}`,
+        });
+
+        return { testField: "never written" };
+      });
+
+      await expect(updatePromise).rejects.toBeInstanceOf(RetriesExhaustedError);
+      await expect(updatePromise).rejects.toMatchObject({ attempts: 3 });
+      expect(callCount).toBe(3);
+
+      heartDb.close();
+    });
+
+    it("should not retry errors other than conflicts", async () => {
+      const heartDb = new HeartDB(
+        new PouchDB<TestDoc>("TEST_update_no_retry", { adapter: "memory" }),
+      );
+
+      await heartDb.put({ _id: "TEST_ID", testField: "test value" });
+
+      let callCount = 0;
+
+      await expect(
+        heartDb.update("TEST_ID", () => {
+          callCount++;
+          return { _id: "OTHER_ID", testField: "test value" };
+        }),
+      ).rejects.toBeInstanceOf(ImmutableFieldError);
+
+      expect(callCount).toBe(1);
+
+      heartDb.close();
+    });
+  });
+
+  describe("remove()", () => {
+    it("should resolve with the deletion change", async () => {
+      const heartDb = new HeartDB(
+        new PouchDB<TestDoc>("TEST_remove_delete", { adapter: "memory" }),
+      );
+
+      await heartDb.put({ _id: "TEST_ID", testField: "test value" });
+
+      const removeChange = await heartDb.remove("TEST_ID");
+
+      expect(removeChange).toBeDefined();
+      expect(removeChange?.id).toBe("TEST_ID");
+      expect(removeChange?.deleted).toBe(true);
+      expect(removeChange?.doc._rev).toMatch(/^2-/);
+      expect(await heartDb.get("TEST_ID")).toBeUndefined();
+
+      heartDb.close();
+    });
+
+    it("should resolve with undefined for missing document", async () => {
+      const heartDb = new HeartDB(
+        new PouchDB<TestDoc>("TEST_remove_missing", { adapter: "memory" }),
+      );
+
+      const removeChange = await heartDb.remove("MISSING_DOC");
+
+      expect(removeChange).toBeUndefined();
+
+      heartDb.close();
+    });
+
+    it("should flag the document when soft-deleting", async () => {
+      const heartDb = new HeartDB(
+        new PouchDB<TestDoc>("TEST_remove_soft", { adapter: "memory" }),
+        { softDeleteField: "removed" },
+      );
+
+      await heartDb.put({ _id: "TEST_ID", testField: "test value" });
+
+      const removeChange = await heartDb.remove("TEST_ID");
+
+      expect(removeChange?.deleted).toBeUndefined();
+      expect(removeChange?.doc._rev).toMatch(/^2-/);
+
+      const doc = await heartDb.get<TestDoc & { removed?: boolean }>("TEST_ID");
+      expect(doc?.removed).toBe(true);
+      expect(doc?.testField).toBe("test value");
+      expect(heartDb.isRemoved(doc as TestDoc)).toBe(true);
+
+      // Removing again should have no effect.
+      expect(await heartDb.remove("TEST_ID")).toBeUndefined();
+
+      heartDb.close();
+    });
+  });
+
+  describe("removeWhere()", () => {
+    it("should remove all matching documents", async () => {
+      const heartDb = new HeartDB(
+        new PouchDB<TestDoc>("TEST_removeWhere", { adapter: "memory" }),
+      );
+
+      await heartDb.bulkDocs(
+        new Array(150).fill(null).map((_, index) => ({
+          _id: `TEST_ID_${`${index}`.padStart(4, "0")}`,
+          testField: index % 2 ? "odd" : "even",
+        })),
+      );
+
+      const results = await heartDb.removeWhere({ testField: "odd" });
+
+      expect(results.length).toBe(75);
+      for (const result of results) {
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+          expect(result.change.deleted).toBe(true);
+        }
+      }
+
+      const remaining = await heartDb.pouchDb.allDocs();
+      expect(remaining.rows.length).toBe(75);
+
+      heartDb.close();
+    });
+  });
+
+  describe("lastSeq", () => {
+    it("should track the sequence of the last change", async () => {
+      const heartDb = new HeartDB(
+        new PouchDB<TestDoc>("TEST_lastSeq", { adapter: "memory" }),
+      );
+
+      expect(heartDb.lastSeq).toBeUndefined();
+
+      const change = await heartDb.put({ _id: "TEST_ID", testField: "test" });
+
+      expect(change.seq).toBeDefined();
+      expect(heartDb.lastSeq).toBe(change.seq);
+
+      heartDb.close();
+    });
+
+    it("should resume from a checkpoint", async () => {
+      const pouchDb = new PouchDB<TestDoc>("TEST_lastSeq_resume", {
+        adapter: "memory",
+      });
+
+      const firstHeartDb = new HeartDB(pouchDb);
+      await firstHeartDb.put({ _id: "TEST_ID_1", testField: "before" });
+      const checkpoint = firstHeartDb.lastSeq;
+      firstHeartDb.close();
+
+      // Written while no HeartDB was following the changes feed.
+      await pouchDb.put({ _id: "TEST_ID_2", testField: "after" });
+
+      const secondHeartDb = new HeartDB(pouchDb, { since: checkpoint });
+      expect(secondHeartDb.lastSeq).toBe(checkpoint);
+
+      const change = await new Promise<ChangesResponseChange<TestDoc>>(
+        (resolve) => {
+          secondHeartDb.onChange((changeEvent) => resolve(changeEvent.detail));
+        },
+      );
+
+      expect(change.id).toBe("TEST_ID_2");
+      expect(secondHeartDb.lastSeq).toBe(change.seq);
+
+      secondHeartDb.close();
+    });
+  });
+
+  describe("change de-duplication", () => {
+    const testChange: ChangesResponseChange<TestDoc> = {
+      id: "TEST_ID",
+      seq: 1,
+      changes: [{ rev: "1-abc" }],
+      doc: { _id: "TEST_ID", _rev: "1-abc", testField: "test value" },
+    };
+
+    it("should mark changes from the local feed as local", async () => {
+      const heartDb = new HeartDB(
+        new PouchDB<TestDoc>("TEST_dedupe_local", { adapter: "memory" }),
+        { transport: new NoopTransport() },
+      );
+
+      const origins: string[] = [];
+      heartDb.onChange((changeEvent) => origins.push(changeEvent.origin));
+      await heartDb.put({ _id: "TEST_ID", testField: "test value" });
+
+      expect(origins).toEqual(["local"]);
+
+      heartDb.close();
+    });
+
+    it("should emit a change received from both feed and channel once", async () => {
+      // Two instances sharing the same database, as with two tabs sharing
+      // IndexedDB, connected by a transport.
+      const [source, target] = [0, 1].map(
+        () =>
+          new HeartDB(
+            new PouchDB<TestDoc>("TEST_dedupe_shared", { adapter: "memory" }),
+            { transport: new InProcessTransport("TEST_dedupe_shared") },
+          ),
+      );
+
+      const origins: string[] = [];
+      target.onChange((changeEvent) => origins.push(changeEvent.origin));
+      await source.put({ _id: "TEST_ID", testField: "test value" });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(origins.length).toBe(1);
+
+      source.close();
+      target.close();
+    });
+
+    it("should only remember changes within the window", async () => {
+      const sender = new InProcessTransport<ChangesResponseChange>(
+        "TEST_dedupe_window",
+      );
+      const heartDb = new HeartDB(
+        new PouchDB<TestDoc>("TEST_dedupe_window", { adapter: "memory" }),
+        {
+          transport: new InProcessTransport("TEST_dedupe_window"),
+          dedupeWindowSize: 1,
+        },
+      );
+
+      const otherChange = {
+        ...testChange,
+        id: "OTHER_ID",
+        doc: { ...testChange.doc, _id: "OTHER_ID" },
+      };
+
+      const changeEvents: ChangeEvent<TestDoc>[] = [];
+      heartDb.onChange((changeEvent) => changeEvents.push(changeEvent));
+      sender.postMessage(testChange);
+      sender.postMessage(testChange);
+      sender.postMessage(otherChange);
+      sender.postMessage(testChange);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(changeEvents.map((changeEvent) => changeEvent.detail.id)).toEqual([
+        "TEST_ID",
+        "OTHER_ID",
+        "TEST_ID",
+      ]);
+      expect(changeEvents[0].origin).toBe("remote");
+
+      sender.close();
+      heartDb.close();
+    });
+  });
+
   describe("liveQuery()", () => {
     it("should create a LiveQuery instance", () => {
       const heartDb = new HeartDB(
@@ -0,0 +1,202 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for leader election among HeartDB instances.
+ */
+
+// External dependencies.
+import PouchDB from "pouchdb";
+import PouchDBPluginAdapterMemory from "pouchdb-adapter-memory";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+// Internal dependencies.
+import { HeartDB } from "../src/heartdb";
+import { InProcessTransport } from "../src/transport";
+
+// Register memory adapter.
+PouchDB.plugin(PouchDBPluginAdapterMemory);
+
+/**
+ * Milliseconds between heartbeats in tests.
+ */
+const INTERVAL = 20;
+
+/**
+ * Wait for a number of milliseconds.
+ * @param ms Milliseconds to wait.
+ */
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("HeartDB leader election", () => {
+  let testCount = 0;
+  let heartDbs: HeartDB[] = [];
+
+  afterEach(() => {
+    for (const heartDb of heartDbs) {
+      heartDb.close();
+    }
+    heartDbs = [];
+  });
+
+  /**
+   * Create HeartDB instances sharing a database and an in-process channel, as
+   * tabs in a browser would.
+   * @param count Number of instances to create.
+   * @returns The instances.
+   */
+  function createHeartDbs(count: number): HeartDB[] {
+    testCount++;
+    const name = `TEST_leader_election_${testCount}`;
+    heartDbs = new Array(count).fill(null).map(
+      () =>
+        new HeartDB(new PouchDB(name, { adapter: "memory" }), {
+          transport: new InProcessTransport(name),
+          leaderHeartbeatInterval: INTERVAL,
+        }),
+    );
+    return heartDbs;
+  }
+
+  /**
+   * Get the instances which currently consider themselves leader.
+   * @returns Leading instances.
+   */
+  function leaders() {
+    return heartDbs.filter((heartDb) => !heartDb.closed && heartDb.isLeader);
+  }
+
+  it("should elect a lone instance", async () => {
+    const [heartDb] = createHeartDbs(1);
+
+    const changes: boolean[] = [];
+    heartDb.onLeadershipChange((event) => changes.push(event.detail));
+    expect(heartDb.isLeader).toBe(false);
+
+    await sleep(INTERVAL * 3);
+
+    expect(heartDb.isLeader).toBe(true);
+    expect(changes).toEqual([true]);
+  });
+
+  it("should elect exactly one of several instances", async () => {
+    createHeartDbs(3).forEach((heartDb) => heartDb.isLeader);
+
+    await sleep(INTERVAL * 10);
+
+    expect(leaders().length).toBe(1);
+  });
+
+  it("should not let a later instance take over", async () => {
+    const [first, second] = createHeartDbs(2);
+    expect(first.isLeader).toBe(false);
+    await sleep(INTERVAL * 3);
+    expect(first.isLeader).toBe(true);
+
+    expect(second.isLeader).toBe(false);
+    await sleep(INTERVAL * 10);
+
+    expect(first.isLeader).toBe(true);
+    expect(second.isLeader).toBe(false);
+  });
+
+  it("should hand off leadership when the leader closes", async () => {
+    createHeartDbs(3).forEach((heartDb) => heartDb.isLeader);
+    await sleep(INTERVAL * 10);
+
+    const [leader] = leaders();
+    const changes: boolean[] = [];
+    leader.onLeadershipChange((event) => changes.push(event.detail));
+    leader.close();
+
+    expect(changes).toEqual([false]);
+    expect(leaders().length).toBe(0);
+
+    await sleep(INTERVAL * 10);
+
+    const [nextLeader] = leaders();
+    expect(nextLeader).toBeDefined();
+    expect(nextLeader).not.toBe(leader);
+    expect(leaders().length).toBe(1);
+  });
+
+  it("should run a task in exactly one context at a time", async () => {
+    const running = new Set<HeartDB>();
+    let startCount = 0;
+
+    for (const heartDb of createHeartDbs(3)) {
+      heartDb.runAsLeader(() => {
+        startCount++;
+        running.add(heartDb);
+        return () => running.delete(heartDb);
+      });
+    }
+
+    await sleep(INTERVAL * 10);
+
+    expect(startCount).toBe(1);
+    expect(running.size).toBe(1);
+
+    const [leader] = running;
+    leader.close();
+    await sleep(INTERVAL * 10);
+
+    expect(startCount).toBe(2);
+    expect(running.size).toBe(1);
+    expect(running.has(leader)).toBe(false);
+  });
+
+  it("should stop a task when disconnected", async () => {
+    const [heartDb] = createHeartDbs(1);
+
+    let cleanupCount = 0;
+    const stop = heartDb.runAsLeader(async () => {
+      return () => cleanupCount++;
+    });
+    await sleep(INTERVAL * 3);
+
+    stop();
+    await sleep(0);
+
+    expect(cleanupCount).toBe(1);
+    expect(heartDb.isLeader).toBe(true);
+  });
+
+  it("should dispatch errors thrown by a task's cleanup", async () => {
+    // Node doesn't provide ErrorEvent, which browsers do.
+    if (typeof globalThis.ErrorEvent === "undefined") {
+      vi.stubGlobal(
+        "ErrorEvent",
+        class extends Event {
+          readonly error: unknown;
+          constructor(type: string, init?: ErrorEventInit) {
+            super(type);
+            this.error = init?.error;
+          }
+        },
+      );
+    }
+
+    const [heartDb] = createHeartDbs(1);
+    const errors: unknown[] = [];
+    heartDb.addEventListener("error", (errorEvent) => {
+      errors.push((errorEvent as ErrorEvent).error);
+    });
+
+    const error = new Error("cleanup failed");
+    const stop = heartDb.runAsLeader(() => () => {
+      throw error;
+    });
+    await sleep(INTERVAL * 3);
+
+    stop();
+    await sleep(0);
+
+    expect(errors).toEqual([error]);
+
+    vi.unstubAllGlobals();
+  });
+});
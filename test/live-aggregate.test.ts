@@ -0,0 +1,151 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for LiveAggregate.
+ */
+
+// External dependencies.
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+// Internal dependencies.
+import { ValidationError } from "../src/errors";
+import { HeartDB } from "../src/heartdb";
+import { AggregateOperation, LiveAggregate } from "../src/live-aggregate";
+import { LiveQuery } from "../src/live-query";
+import { AggregateResult, Document } from "../src/types";
+
+// Test dependencies.
+import { TestDbFactory } from "./test-db-factory";
+
+interface Task extends Document {
+  type: "task";
+  status: "open" | "closed";
+  points?: number;
+}
+
+describe("LiveAggregate", () => {
+  const testDbFactory = new TestDbFactory<Task>({
+    dbNamePrefix: "TEST_LiveAggregate",
+    initialDocs: [
+      { _id: "TASK_1", type: "task", status: "open", points: 3 },
+      { _id: "TASK_2", type: "task", status: "open", points: 5 },
+      { _id: "TASK_3", type: "task", status: "closed", points: 1 },
+      { _id: "TASK_4", type: "task", status: "closed" },
+    ],
+  });
+
+  let heartDb: HeartDB<Task>;
+  let liveQuery: LiveQuery<Task>;
+
+  beforeEach(async () => {
+    heartDb = await testDbFactory.createDb();
+    liveQuery = new LiveQuery(heartDb);
+    await liveQuery.setQuery({ selector: { type: "task" } });
+  });
+
+  afterEach(() => {
+    liveQuery.close();
+    heartDb.close();
+  });
+
+  /**
+   * Update a task's fields.
+   * @param id Id of the task.
+   * @param fields Fields to change.
+   */
+  async function updateTask(id: string, fields: Partial<Task>) {
+    await heartDb.update(id, (task) => task && { ...task, ...fields });
+  }
+
+  it("should compute aggregates over the current results", () => {
+    const aggregate = (operation: AggregateOperation) =>
+      new LiveAggregate(liveQuery, { operation, field: "points" }).value;
+
+    expect(aggregate("count")).toBe(4);
+    expect(aggregate("sum")).toBe(9);
+    expect(aggregate("min")).toBe(1);
+    expect(aggregate("max")).toBe(5);
+    expect(aggregate("avg")).toBe(3);
+  });
+
+  it("should follow entering, updating and exiting docs", async () => {
+    const liveAggregate = new LiveAggregate(liveQuery, {
+      operation: "max",
+      field: "points",
+    });
+    const values: (number | undefined)[] = [];
+    liveAggregate.onAggregateChange((aggregateChangeEvent) => {
+      values.push(aggregateChangeEvent.detail.value);
+    });
+
+    await heartDb.put({
+      _id: "TASK_5",
+      type: "task",
+      status: "open",
+      points: 8,
+    });
+    await updateTask("TASK_5", { points: 2 });
+    await heartDb.remove("TASK_2");
+    await liveQuery.setQuery(undefined);
+
+    expect(values).toEqual([8, 5, 3, undefined]);
+  });
+
+  it("should only dispatch when the result changes", async () => {
+    const liveAggregate = new LiveAggregate(liveQuery, { operation: "count" });
+    let changeCount = 0;
+    liveAggregate.onAggregateChange(() => changeCount++);
+
+    await updateTask("TASK_1", { points: 4 });
+    expect(changeCount).toBe(0);
+
+    await heartDb.remove("TASK_1");
+    expect(changeCount).toBe(1);
+    expect(liveAggregate.value).toBe(3);
+  });
+
+  it("should group results", async () => {
+    const liveAggregate = new LiveAggregate(liveQuery, {
+      operation: "sum",
+      field: "points",
+      groupBy: "status",
+    });
+    expect(liveAggregate.groups).toEqual({ open: 8, closed: 1 });
+
+    const results: AggregateResult[] = [];
+    liveAggregate.onAggregateChange((aggregateChangeEvent) => {
+      results.push(aggregateChangeEvent.detail);
+    });
+
+    await updateTask("TASK_1", { status: "closed" });
+    await heartDb.remove("TASK_2");
+
+    expect(results).toEqual([
+      { value: 9, groups: { open: 5, closed: 4 } },
+      { value: 4, groups: { closed: 4 } },
+    ]);
+  });
+
+  it("should group by function", () => {
+    const liveAggregate = new LiveAggregate(liveQuery, {
+      operation: "count",
+      groupBy: (task) => (task.points === undefined ? undefined : "estimated"),
+    });
+    expect(liveAggregate.value).toBe(4);
+    expect(liveAggregate.groups).toEqual({ estimated: 3 });
+  });
+
+  it("should require a field except when counting", () => {
+    expect(() => new LiveAggregate(liveQuery, { operation: "sum" })).toThrow(
+      ValidationError,
+    );
+  });
+
+  it("should close with its LiveQuery", () => {
+    const liveAggregate = new LiveAggregate(liveQuery, { operation: "count" });
+    liveQuery.close();
+    expect(liveAggregate.closed).toBe(true);
+  });
+});
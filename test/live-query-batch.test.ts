@@ -0,0 +1,182 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for LiveQuery's batched change processing.
+ */
+
+// External dependencies.
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+// Internal dependencies.
+import { HeartDB } from "../src/heartdb";
+import { LiveQuery } from "../src/live-query";
+
+// Test dependencies.
+import { TestDbFactory } from "./test-db-factory";
+import { TestDoc } from "./test-docs";
+
+/**
+ * Create a number of test docs with a common test field value.
+ * @param count Number of docs to create.
+ * @returns Array of docs.
+ */
+function createBatchDocs(count: number) {
+  return new Array(count).fill(null).map((_, index) => ({
+    _id: `BATCH_DOC_${`${index}`.padStart(4, "0")}`,
+    testField: "batch",
+  }));
+}
+
+describe("LiveQuery batching", () => {
+  const testDbFactory = new TestDbFactory<TestDoc>({
+    dbNamePrefix: "TEST_LiveQuery_batch",
+  });
+
+  let heartDb: HeartDB<TestDoc>;
+
+  beforeEach(async () => {
+    heartDb = await testDbFactory.createDb();
+  });
+
+  afterEach(() => {
+    heartDb.close();
+  });
+
+  /**
+   * Create a live query following batch docs, and count the events it emits.
+   * @param liveQuery Live query to follow.
+   * @returns Record of event counts by type.
+   */
+  async function followBatchDocs(liveQuery: LiveQuery<TestDoc>) {
+    await liveQuery.setQuery({ selector: { testField: "batch" } });
+    const counts = { enter: 0, update: 0, exit: 0, afterchange: 0 };
+    liveQuery.onEnter(() => counts.enter++);
+    liveQuery.onUpdate(() => counts.update++);
+    liveQuery.onExit(() => counts.exit++);
+    liveQuery.onAfterChange(() => counts.afterchange++);
+    return counts;
+  }
+
+  /**
+   * Wait for the next afterchange event from the live query.
+   * @param liveQuery Live query to wait on.
+   */
+  function nextAfterChange(liveQuery: LiveQuery<TestDoc>) {
+    return new Promise<void>((resolve) => {
+      const disconnect = liveQuery.onAfterChange(() => {
+        disconnect();
+        resolve();
+      });
+    });
+  }
+
+  it("should coalesce changes within the window into one set of events", async () => {
+    const liveQuery = new LiveQuery(heartDb, { batch: 50 });
+    const counts = await followBatchDocs(liveQuery);
+
+    let afterChange = nextAfterChange(liveQuery);
+    await heartDb.bulkDocs(createBatchDocs(20));
+    await afterChange;
+
+    expect(counts).toEqual({ enter: 1, update: 0, exit: 0, afterchange: 1 });
+    expect(liveQuery.orderedDocs.length).toBe(20);
+
+    afterChange = nextAfterChange(liveQuery);
+    const [first, second, third] = liveQuery.orderedDocs;
+    await heartDb.bulkDocs([
+      { ...first, testField: "batch" },
+      { ...second, testField: "other" },
+      { ...third, _deleted: true },
+    ]);
+    await afterChange;
+
+    expect(counts).toEqual({ enter: 1, update: 1, exit: 1, afterchange: 2 });
+    expect(liveQuery.orderedDocs.length).toBe(18);
+  });
+
+  it("should process only the latest change to each doc", async () => {
+    const liveQuery = new LiveQuery(heartDb, { batch: 50 });
+    const counts = await followBatchDocs(liveQuery);
+
+    const [doc] = createBatchDocs(1);
+    const { doc: putDoc } = await heartDb.put(doc);
+    await heartDb.put({ ...putDoc, testField: "other" });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(counts).toEqual({ enter: 0, update: 0, exit: 0, afterchange: 0 });
+    expect(liveQuery.docs).toEqual({});
+  });
+
+  it("should process changes at the end of the microtask", async () => {
+    const liveQuery = new LiveQuery(heartDb, { batch: "microtask" });
+    const counts = await followBatchDocs(liveQuery);
+
+    const afterChange = nextAfterChange(liveQuery);
+    const [doc] = createBatchDocs(1);
+    heartDb.put(doc);
+
+    // The change is not processed synchronously.
+    await Promise.resolve();
+    expect(liveQuery.docs).toEqual({});
+
+    await afterChange;
+    expect(counts).toEqual({ enter: 1, update: 0, exit: 0, afterchange: 1 });
+    expect(Object.keys(liveQuery.docs)).toEqual([doc._id]);
+  });
+
+  it("should fall back to a timeout without animation frames", async () => {
+    const liveQuery = new LiveQuery(heartDb, { batch: "animationFrame" });
+    await followBatchDocs(liveQuery);
+
+    await heartDb.bulkDocs(createBatchDocs(5));
+    while (liveQuery.orderedDocs.length < 5) {
+      await nextAfterChange(liveQuery);
+    }
+
+    expect(liveQuery.orderedDocs.length).toBe(5);
+  });
+
+  it("should refresh a window once per batch", async () => {
+    await heartDb.bulkDocs(createBatchDocs(10));
+
+    const liveQuery = new LiveQuery(heartDb, { batch: 50 });
+    await liveQuery.setQuery({ selector: { testField: "batch" }, limit: 5 });
+
+    let findCount = 0;
+    const find = heartDb.pouchDb.find.bind(heartDb.pouchDb);
+    heartDb.pouchDb.find = (request) => {
+      findCount++;
+      return find(request);
+    };
+
+    const afterChange = nextAfterChange(liveQuery);
+    const [first, second] = liveQuery.orderedDocs;
+    await heartDb.bulkDocs([
+      { ...first, _deleted: true },
+      { ...second, _deleted: true },
+    ]);
+    await afterChange;
+
+    expect(findCount).toBe(1);
+    expect(liveQuery.orderedDocs.map((doc) => doc._id)).toEqual([
+      "BATCH_DOC_0002",
+      "BATCH_DOC_0003",
+      "BATCH_DOC_0004",
+      "BATCH_DOC_0005",
+      "BATCH_DOC_0006",
+    ]);
+  });
+
+  it("should discard pending changes when closed", async () => {
+    const liveQuery = new LiveQuery(heartDb, { batch: 50 });
+    const counts = await followBatchDocs(liveQuery);
+
+    await heartDb.bulkDocs(createBatchDocs(5));
+    liveQuery.close();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(counts).toEqual({ enter: 0, update: 0, exit: 0, afterchange: 0 });
+  });
+});
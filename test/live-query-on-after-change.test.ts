@@ -52,35 +52,35 @@ describe("LiveQuery::onAfterChange()", () => {
 
       switch (callCount) {
         case 1:
-          // First call should have 30 of the 40 matching docs.
+          // First call should have the 30 docs within the limit.
           expect(Object.keys(docs).length).toBe(30);
-          break;
-        case 2:
-          // Second call should have all 40 matching docs.
-          expect(Object.keys(docs).length).toBe(40);
           expect(docs["TEST_DOC_0054"]).toBeDefined();
           expect(docs["TEST_DOC_0073"]._rev).toMatch(/^1-/);
+          expect(docs["TEST_DOC_0080"]).toBeUndefined();
           initialDeferred.resolve();
           break;
-        case 3:
-          // Third call should have 39 matching docs.
+        case 2:
+          // Second call should still have 30 docs, with the next matching doc
+          // taking the place of the deleted one.
           expect(docs["TEST_DOC_0054"]).toBeUndefined();
-          expect(docs["TEST_DOC_0073"]._rev).toMatch(/^1-/);
-          expect(Object.keys(docs).length).toBe(39);
+          expect(docs["TEST_DOC_0080"]).toBeDefined();
+          expect(Object.keys(docs).length).toBe(30);
           deletionDeferred.resolve();
           break;
-        case 4:
-          // Fourth call should have 39 matching docs, but one changed.
-          expect(Object.keys(docs).length).toBe(39);
+        case 3:
+          // Third call should have 30 docs, but one changed.
+          expect(Object.keys(docs).length).toBe(30);
           expect(docs["TEST_DOC_0054"]).toBeUndefined();
           expect(docs["TEST_DOC_0073"]._rev).toMatch(/^2-/);
           modifiedDeferred.resolve();
           break;
-        case 5:
-          // Fifth call should again have 40 matching docs.
-          expect(Object.keys(docs).length).toBe(40);
+        case 4:
+          // Fourth call should have 30 docs, with the recreated doc evicting
+          // the last one.
+          expect(Object.keys(docs).length).toBe(30);
           expect(docs["TEST_DOC_0054"]).toBeDefined();
           expect(docs["TEST_DOC_0054"]._rev).toMatch(/^3-/);
+          expect(docs["TEST_DOC_0080"]).toBeUndefined();
           recreationDeferred.resolve();
           break;
         default:
@@ -104,12 +104,10 @@ describe("LiveQuery::onEnter()", () => {
     disconnect();
   });
 
-  it("should continue finding docs until all found", async () => {
+  it("should find only docs within the limit", async () => {
     // This test creates a query with a limit of 10 documents that matches 50
-    // docuents from the test set. Accordingly, we expect 5 calls to
-    // onEnter(). The implementation will actually perform a 6th find()
-    // request, which will return no documents and thus not trigger a 6th
-    // onEnter() call.
+    // docuents from the test set. Since the limit defines a window onto the
+    // results, we expect a single call to onEnter() with the first 10.
 
     const liveQuery = new LiveQuery(heartDb);
     expect(liveQuery.query).toBeUndefined();
@@ -121,8 +119,12 @@ describe("LiveQuery::onEnter()", () => {
 
       const docs = enterEvent.detail;
 
-      // Expect batches of 10 results, 5 times.
       expect(Object.keys(docs).length).toBe(10);
+
+      for (let index = 10; index < 20; index++) {
+        const doc = docs[`TEST_DOC_${`${index}`.padStart(4, "0")}`];
+        expect(doc).toBeDefined();
+      }
     });
 
     const query: PouchDB.Find.FindRequest<TestDoc> = {
@@ -137,10 +139,20 @@ describe("LiveQuery::onEnter()", () => {
 
     await liveQuery.setQuery(query);
     expect(liveQuery.query).toBe(query);
-    expect(callCount).toBe(5);
+    expect(callCount).toBe(1);
     disconnect();
   });
 
+  it("should find all docs without a limit", async () => {
+    const liveQuery = new LiveQuery(heartDb);
+
+    await liveQuery.setQuery({
+      selector: { _id: { $gte: "TEST_DOC_0010", $lt: "TEST_DOC_0060" } },
+    });
+
+    expect(Object.keys(liveQuery.docs).length).toBe(50);
+  });
+
   it("should find later added docs", async () => {
     // This test subscribes to a query for docs beyond the initial 100, then
     // adds a new doc that matches the query. We expect the onEnter() callback
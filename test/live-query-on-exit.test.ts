@@ -113,4 +113,41 @@ describe("LiveQuery::onExit()", () => {
 
     await exitDeferred.promise;
   });
+
+  it("should exit soft-deleted docs", async () => {
+    const softDeleteHeartDb = await new TestDbFactory<TestDoc>({
+      dbNamePrefix: "TEST_LiveQuery_onExit_soft",
+      initialDocs: TEST_DOCS_0100,
+      heartDbOptions: { softDeleteField: "removed" },
+    }).createDb();
+
+    const liveQuery = new LiveQuery(softDeleteHeartDb);
+
+    await liveQuery.setQuery({
+      selector: { _id: { $gte: "TEST_DOC_0098" } },
+    });
+
+    expect(Object.keys(liveQuery.docs).length).toBe(2);
+
+    const exitDeferred = pDefer<void>();
+    liveQuery.onExit((exitEvent) => {
+      expect(Object.keys(exitEvent.detail)).toEqual(["TEST_DOC_0098"]);
+      exitDeferred.resolve();
+    });
+
+    await softDeleteHeartDb.remove("TEST_DOC_0098");
+    await exitDeferred.promise;
+
+    expect(Object.keys(liveQuery.docs)).toEqual(["TEST_DOC_0099"]);
+
+    // Soft-deleted docs should not enter a newly set query.
+    await liveQuery.setQuery({
+      selector: { _id: { $gte: "TEST_DOC_0090" } },
+    });
+
+    expect(Object.keys(liveQuery.docs).length).toBe(9);
+    expect(liveQuery.docs["TEST_DOC_0098"]).toBeUndefined();
+
+    softDeleteHeartDb.close();
+  });
 });
@@ -0,0 +1,152 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for LiveQuery's ordered docs.
+ */
+
+// External dependencies.
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+// Internal dependencies.
+import { EnterEvent, ExitEvent, UpdateEvent } from "../src/events";
+import { HeartDB } from "../src/heartdb";
+import { LiveQuery } from "../src/live-query";
+
+// Test dependencies.
+import { TestDbFactory } from "./test-db-factory";
+import { TestDoc } from "./test-docs";
+
+/**
+ * Test document with a field to sort by.
+ */
+interface RankedDoc extends TestDoc {
+  rank: number;
+}
+
+describe("LiveQuery::orderedDocs", () => {
+  const testDbFactory = new TestDbFactory<RankedDoc>({
+    dbNamePrefix: "TEST_LiveQuery_orderedDocs",
+    initialDocs: [
+      { _id: "A", testField: "test", rank: 30 },
+      { _id: "B", testField: "test", rank: 10 },
+      { _id: "C", testField: "test", rank: 20 },
+    ],
+  });
+
+  let heartDb: HeartDB<RankedDoc>;
+  let liveQuery: LiveQuery<RankedDoc>;
+
+  beforeEach(async () => {
+    heartDb = await testDbFactory.createDb();
+    await heartDb.pouchDb.createIndex({ index: { fields: ["rank"] } });
+    liveQuery = new LiveQuery(heartDb);
+  });
+
+  afterEach(() => {
+    heartDb.close();
+  });
+
+  /**
+   * Wait for the next event of the given type from the live query.
+   */
+  function nextEvent<EventType extends Event>(type: string) {
+    return new Promise<EventType>((resolve) => {
+      const disconnect = liveQuery.addEventListener<EventType>(
+        type,
+        (event) => {
+          disconnect();
+          resolve(event);
+        },
+      );
+    });
+  }
+
+  it("should order docs by _id without a sort", async () => {
+    await liveQuery.setQuery({ selector: { testField: "test" } });
+    expect(liveQuery.orderedDocs.map((doc) => doc._id)).toEqual([
+      "A",
+      "B",
+      "C",
+    ]);
+  });
+
+  it("should order docs by the query's sort", async () => {
+    const enterPromise = nextEvent<EnterEvent<RankedDoc>>("enter");
+
+    await liveQuery.setQuery({
+      selector: { rank: { $gt: 0 } },
+      sort: ["rank"],
+    });
+
+    expect(liveQuery.orderedDocs.map((doc) => doc._id)).toEqual([
+      "B",
+      "C",
+      "A",
+    ]);
+
+    const enterEvent = await enterPromise;
+    expect(enterEvent.indices).toEqual({ B: 0, C: 1, A: 2 });
+  });
+
+  it("should report positions as docs enter, update and exit", async () => {
+    await liveQuery.setQuery({
+      selector: { rank: { $gt: 0 } },
+      sort: ["rank"],
+    });
+
+    // Entering doc should be placed between B and C.
+    const enterPromise = nextEvent<EnterEvent<RankedDoc>>("enter");
+    await heartDb.put({ _id: "D", testField: "test", rank: 15 });
+    const enterEvent = await enterPromise;
+    expect(enterEvent.indices).toEqual({ D: 1 });
+    expect(liveQuery.orderedDocs.map((doc) => doc._id)).toEqual([
+      "B",
+      "D",
+      "C",
+      "A",
+    ]);
+
+    // Updating doc B's rank should move it to the end.
+    const updatePromise = nextEvent<UpdateEvent<RankedDoc>>("update");
+    await heartDb.update("B", (doc) => doc && { ...doc, rank: 40 });
+    const updateEvent = await updatePromise;
+    expect(updateEvent.moves).toEqual({ B: { from: 0, to: 3 } });
+    expect(liveQuery.orderedDocs.map((doc) => doc._id)).toEqual([
+      "D",
+      "C",
+      "A",
+      "B",
+    ]);
+
+    // Exiting doc C should report its former position.
+    const exitPromise = nextEvent<ExitEvent<RankedDoc>>("exit");
+    await heartDb.remove("C");
+    const exitEvent = await exitPromise;
+    expect(exitEvent.indices).toEqual({ C: 1 });
+    expect(liveQuery.orderedDocs.map((doc) => doc._id)).toEqual([
+      "D",
+      "A",
+      "B",
+    ]);
+  });
+
+  it("should reorder docs when the query changes", async () => {
+    await liveQuery.setQuery({
+      selector: { rank: { $gt: 0 } },
+      sort: ["rank"],
+    });
+
+    await liveQuery.setQuery({
+      selector: { rank: { $gt: 0 } },
+      sort: [{ rank: "desc" }],
+    });
+
+    expect(liveQuery.orderedDocs.map((doc) => doc._id)).toEqual([
+      "A",
+      "C",
+      "B",
+    ]);
+  });
+});
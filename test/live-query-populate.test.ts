@@ -0,0 +1,180 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for LiveQuery's populate option.
+ */
+
+// External dependencies.
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+// Internal dependencies.
+import { HeartDB } from "../src/heartdb";
+import { LiveQuery } from "../src/live-query";
+import { Document } from "../src/types";
+
+// Test dependencies.
+import { TestDbFactory } from "./test-db-factory";
+
+interface Item extends Document {
+  type: "task" | "project" | "user";
+  name: string;
+  projectId?: string;
+  assigneeIds?: string[];
+}
+
+describe("LiveQuery populate", () => {
+  const testDbFactory = new TestDbFactory<Item>({
+    dbNamePrefix: "TEST_LiveQuery_populate",
+    initialDocs: [
+      { _id: "PROJECT_A", type: "project", name: "Alpha" },
+      { _id: "PROJECT_B", type: "project", name: "Beta" },
+      { _id: "USER_1", type: "user", name: "Ada" },
+      { _id: "USER_2", type: "user", name: "Grace" },
+      {
+        _id: "TASK_1",
+        type: "task",
+        name: "Write tests",
+        projectId: "PROJECT_A",
+        assigneeIds: ["USER_1", "USER_2"],
+      },
+      { _id: "TASK_2", type: "task", name: "Fix bugs", projectId: "PROJECT_A" },
+    ],
+  });
+
+  let heartDb: HeartDB<Item>;
+  let liveQuery: LiveQuery<Item>;
+
+  beforeEach(async () => {
+    heartDb = await testDbFactory.createDb();
+    liveQuery = new LiveQuery(heartDb, {
+      populate: ["projectId", "assigneeIds"],
+    });
+  });
+
+  afterEach(() => {
+    liveQuery.close();
+    heartDb.close();
+  });
+
+  /**
+   * Set the query to follow tasks, and wait until their referenced documents
+   * have loaded.
+   */
+  async function followTasks() {
+    await liveQuery.setQuery({ selector: { type: "task" } });
+    while (
+      !liveQuery.populated["TASK_1"]?.projectId ||
+      populatedNames("TASK_1", "assigneeIds")?.length !== 2
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+  }
+
+  /**
+   * Wait for the next update event.
+   * @returns Promise resolving to the ids of the updated docs.
+   */
+  function nextUpdate(): Promise<string[]> {
+    return new Promise((resolve) => {
+      const disconnect = liveQuery.onUpdate((updateEvent) => {
+        disconnect();
+        resolve(Object.keys(updateEvent.detail).sort());
+      });
+    });
+  }
+
+  /**
+   * Get the names of the documents populating a field of a result doc.
+   * @param id Id of the result doc.
+   * @param field Relation field.
+   * @returns Name, or names, of the referenced documents.
+   */
+  function populatedNames(id: string, field: string) {
+    const populated = liveQuery.populated[id]?.[field];
+    return Array.isArray(populated)
+      ? populated.map(({ name }) => name)
+      : populated?.name;
+  }
+
+  it("should populate single and array relations", async () => {
+    await followTasks();
+
+    expect(populatedNames("TASK_1", "projectId")).toBe("Alpha");
+    expect(populatedNames("TASK_1", "assigneeIds")).toEqual(["Ada", "Grace"]);
+    expect(populatedNames("TASK_2", "projectId")).toBe("Alpha");
+    expect(populatedNames("TASK_2", "assigneeIds")).toBeUndefined();
+  });
+
+  it("should update referrers when referenced docs change", async () => {
+    await followTasks();
+
+    const updated = nextUpdate();
+    await heartDb.update(
+      "PROJECT_A",
+      (project) => project && { ...project, name: "Alpha 2" },
+    );
+    expect(await updated).toEqual(["TASK_1", "TASK_2"]);
+    expect(populatedNames("TASK_2", "projectId")).toBe("Alpha 2");
+
+    await heartDb.remove("USER_1");
+    expect(populatedNames("TASK_1", "assigneeIds")).toEqual(["Grace"]);
+  });
+
+  it("should follow changed references", async () => {
+    await followTasks();
+
+    const updated = nextUpdate();
+    await heartDb.update(
+      "TASK_2",
+      (task) => task && { ...task, projectId: "PROJECT_B" },
+    );
+    await updated;
+
+    // The newly referenced project loads after the task updates.
+    const populated = nextUpdate();
+    expect(await populated).toEqual(["TASK_2"]);
+    expect(populatedNames("TASK_2", "projectId")).toBe("Beta");
+  });
+
+  it("should forget relations of exiting docs", async () => {
+    await followTasks();
+
+    await heartDb.remove("TASK_1");
+    expect(liveQuery.populated["TASK_1"]).toBeUndefined();
+
+    // Users are no longer referenced, so changing them updates nothing.
+    let updateCount = 0;
+    liveQuery.onUpdate(() => updateCount++);
+    await heartDb.update("USER_1", (user) => user && { ...user, name: "A" });
+    expect(updateCount).toBe(0);
+  });
+
+  it("should populate missing references as undefined", async () => {
+    await heartDb.put({
+      _id: "TASK_3",
+      type: "task",
+      name: "Orphan",
+      projectId: "MISSING",
+    });
+    // Wait for the missing project to load, which updates its referrer.
+    const loaded = new Promise<void>((resolve) => {
+      const disconnect = liveQuery.onUpdate((updateEvent) => {
+        if ("TASK_3" in updateEvent.detail) {
+          disconnect();
+          resolve();
+        }
+      });
+    });
+    await followTasks();
+    await loaded;
+
+    expect(populatedNames("TASK_3", "projectId")).toBeUndefined();
+
+    const updated = nextUpdate();
+    await heartDb.put({ _id: "MISSING", type: "project", name: "Found" });
+    expect(await updated).toEqual(["TASK_3"]);
+    expect(populatedNames("TASK_3", "projectId")).toBe("Found");
+  });
+});
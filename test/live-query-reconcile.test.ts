@@ -0,0 +1,84 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for LiveQuery's reconciliation of changes which occur
+ * while the initial results are being found.
+ */
+
+// External dependencies.
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+// Internal dependencies.
+import { HeartDB } from "../src/heartdb";
+import { LiveQuery } from "../src/live-query";
+
+// Test dependencies.
+import { TestDbFactory } from "./test-db-factory";
+import { TEST_DOCS_0100, TestDoc } from "./test-docs";
+
+describe("LiveQuery reconciliation", () => {
+  const testDbFactory = new TestDbFactory({
+    dbNamePrefix: "TEST_LiveQuery_reconcile",
+    initialDocs: TEST_DOCS_0100.slice(0, 10),
+  });
+
+  let heartDb: HeartDB<TestDoc>;
+
+  beforeEach(async () => {
+    heartDb = await testDbFactory.createDb();
+  });
+
+  afterEach(() => {
+    heartDb.close();
+  });
+
+  /**
+   * Make the next find() request return stale results, by writing a doc and
+   * waiting for its change event after the results have been found.
+   * @param doc Doc to write.
+   */
+  function writeDuringNextFind(doc: TestDoc & PouchDB.Core.IdMeta) {
+    const find = heartDb.pouchDb.find.bind(heartDb.pouchDb);
+    heartDb.pouchDb.find = async (request) => {
+      heartDb.pouchDb.find = find;
+      const results = await find(request);
+      await heartDb.put(doc);
+      return results;
+    };
+  }
+
+  it("should include docs entering while finding", async () => {
+    // Sorts before the found docs, so won't be found by subsequent pages.
+    writeDuringNextFind({ _id: "A_NEW_DOC", testField: "test value new" });
+
+    const liveQuery = new LiveQuery(heartDb);
+    await liveQuery.setQuery({ selector: { testField: { $gt: "" } } });
+
+    expect(liveQuery.orderedDocs.length).toBe(11);
+    expect(liveQuery.orderedDocs[0]._id).toBe("A_NEW_DOC");
+  });
+
+  it("should apply updates made while finding", async () => {
+    const doc = await heartDb.get("TEST_DOC_0003");
+    writeDuringNextFind({ ...doc!, testField: "updated" });
+
+    const liveQuery = new LiveQuery(heartDb);
+    await liveQuery.setQuery({ selector: { testField: { $gt: "" } } });
+
+    expect(liveQuery.docs["TEST_DOC_0003"].testField).toBe("updated");
+    expect(liveQuery.docs["TEST_DOC_0003"]._rev).toMatch(/^2-/);
+  });
+
+  it("should remove docs exiting while finding", async () => {
+    const doc = await heartDb.get("TEST_DOC_0005");
+    writeDuringNextFind({ ...doc!, _deleted: true });
+
+    const liveQuery = new LiveQuery(heartDb);
+    await liveQuery.setQuery({ selector: { testField: { $gt: "" } } });
+
+    expect(liveQuery.orderedDocs.length).toBe(9);
+    expect(liveQuery.docs["TEST_DOC_0005"]).toBeUndefined();
+  });
+});
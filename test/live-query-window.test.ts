@@ -0,0 +1,234 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for LiveQuery's windowed queries.
+ */
+
+// External dependencies.
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+// Internal dependencies.
+import { InvalidStateError } from "../src/errors";
+import { HeartDB } from "../src/heartdb";
+import { LiveQuery } from "../src/live-query";
+
+// Test dependencies.
+import { TestDbFactory } from "./test-db-factory";
+import { TestDoc } from "./test-docs";
+
+/**
+ * Test document with a field to sort by.
+ */
+interface RankedDoc extends TestDoc {
+  rank: number;
+}
+
+describe("LiveQuery windows", () => {
+  const testDbFactory = new TestDbFactory<RankedDoc>({
+    dbNamePrefix: "TEST_LiveQuery_window",
+    initialDocs: new Array(10).fill(null).map((_, index) => ({
+      _id: `TEST_DOC_${index}`,
+      testField: "test",
+      rank: (index + 1) * 10,
+    })),
+  });
+
+  let heartDb: HeartDB<RankedDoc>;
+  let liveQuery: LiveQuery<RankedDoc>;
+
+  beforeEach(async () => {
+    heartDb = await testDbFactory.createDb();
+    await heartDb.pouchDb.createIndex({ index: { fields: ["rank"] } });
+    liveQuery = new LiveQuery(heartDb);
+  });
+
+  afterEach(() => {
+    heartDb.close();
+  });
+
+  /**
+   * Wait for the next afterchange event from the live query.
+   */
+  function nextAfterChange() {
+    return new Promise<void>((resolve) => {
+      const disconnect = liveQuery.onAfterChange(() => {
+        disconnect();
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Ranks of the docs in the live query, in order.
+   */
+  function ranks() {
+    return liveQuery.orderedDocs.map((doc) => doc.rank);
+  }
+
+  it("should hold only the top docs", async () => {
+    await liveQuery.setQuery({
+      selector: { rank: { $gt: 0 } },
+      sort: ["rank"],
+      limit: 3,
+    });
+
+    expect(ranks()).toEqual([10, 20, 30]);
+  });
+
+  it("should pull in the next doc when one exits", async () => {
+    await liveQuery.setQuery({
+      selector: { rank: { $gt: 0 } },
+      sort: ["rank"],
+      limit: 3,
+    });
+
+    const afterChange = nextAfterChange();
+    await heartDb.remove("TEST_DOC_1");
+    await afterChange;
+
+    expect(ranks()).toEqual([10, 30, 40]);
+  });
+
+  it("should evict the last doc when a higher-ranked one enters", async () => {
+    await liveQuery.setQuery({
+      selector: { rank: { $gt: 0 } },
+      sort: ["rank"],
+      limit: 3,
+    });
+
+    const afterChange = nextAfterChange();
+    await heartDb.put({ _id: "NEW_DOC", testField: "test", rank: 5 });
+    await afterChange;
+
+    expect(ranks()).toEqual([5, 10, 20]);
+  });
+
+  it("should ignore changes to docs outside the window", async () => {
+    await liveQuery.setQuery({
+      selector: { rank: { $gt: 0 } },
+      sort: ["rank"],
+      limit: 3,
+    });
+
+    let afterChangeCount = 0;
+    liveQuery.onAfterChange(() => {
+      afterChangeCount++;
+    });
+
+    await heartDb.update("TEST_DOC_9", (doc) => doc && { ...doc, rank: 200 });
+    await heartDb.put({ _id: "NEW_DOC", testField: "test", rank: 150 });
+
+    // Allow any window refreshes to complete.
+    await heartDb.pouchDb.find({ selector: { rank: { $gt: 0 } } });
+
+    expect(afterChangeCount).toBe(0);
+    expect(ranks()).toEqual([10, 20, 30]);
+  });
+
+  it("should page through docs with setWindow()", async () => {
+    await liveQuery.setQuery({
+      selector: { rank: { $gt: 0 } },
+      sort: ["rank"],
+      limit: 3,
+    });
+
+    await liveQuery.setWindow(3, 3);
+    expect(ranks()).toEqual([40, 50, 60]);
+
+    // Removing a doc before the window shifts the window's contents.
+    const afterChange = nextAfterChange();
+    await heartDb.remove("TEST_DOC_0");
+    await afterChange;
+
+    expect(ranks()).toEqual([50, 60, 70]);
+  });
+
+  it("should require a query to set the window", async () => {
+    await expect(liveQuery.setWindow(0, 10)).rejects.toBeInstanceOf(
+      InvalidStateError,
+    );
+  });
+
+  it("should skip soft-deleted docs", async () => {
+    const softDeleteDb = await new TestDbFactory<RankedDoc>({
+      ...testDbFactory.factoryParams,
+      dbNamePrefix: "TEST_LiveQuery_window_soft",
+      heartDbOptions: { softDeleteField: "removed" },
+    }).createDb();
+    await softDeleteDb.pouchDb.createIndex({ index: { fields: ["rank"] } });
+    await softDeleteDb.remove("TEST_DOC_1");
+
+    const softDeleteQuery = new LiveQuery(softDeleteDb);
+    await softDeleteQuery.setQuery({
+      selector: { rank: { $gt: 0 } },
+      sort: ["rank"],
+      limit: 3,
+    });
+    expect(softDeleteQuery.orderedDocs.map((doc) => doc.rank)).toEqual([
+      10, 30, 40,
+    ]);
+
+    const afterChange = new Promise<void>((resolve) => {
+      softDeleteQuery.onAfterChange(() => resolve());
+    });
+    await softDeleteDb.remove("TEST_DOC_2");
+    await afterChange;
+    expect(softDeleteQuery.orderedDocs.map((doc) => doc.rank)).toEqual([
+      10, 40, 50,
+    ]);
+
+    softDeleteQuery.close();
+    softDeleteDb.close();
+  });
+
+  describe("with removed and invalid docs", () => {
+    const filteredDbFactory = new TestDbFactory<RankedDoc>({
+      ...testDbFactory.factoryParams,
+      dbNamePrefix: "TEST_LiveQuery_window_filtered",
+      heartDbOptions: {
+        softDeleteField: "removed",
+        filterInvalidReads: true,
+        validators: { invalid: () => false },
+      },
+    });
+
+    let filteredDb: HeartDB<RankedDoc>;
+    let filteredQuery: LiveQuery<RankedDoc>;
+
+    beforeEach(async () => {
+      filteredDb = await filteredDbFactory.createDb();
+      await filteredDb.pouchDb.createIndex({ index: { fields: ["rank"] } });
+      filteredQuery = new LiveQuery(filteredDb);
+
+      await filteredDb.remove("TEST_DOC_0");
+      await filteredDb.remove("TEST_DOC_2");
+
+      // Bypass validation, as another version of the app might.
+      const doc = await filteredDb.pouchDb.get("TEST_DOC_4");
+      await filteredDb.pouchDb.put({ ...doc, type: "invalid" });
+    });
+
+    afterEach(() => {
+      filteredQuery.close();
+      filteredDb.close();
+    });
+
+    it("should fill the window with readable docs", async () => {
+      await filteredQuery.setQuery({
+        selector: { rank: { $gt: 0 } },
+        sort: ["rank"],
+        limit: 3,
+      });
+      expect(filteredQuery.orderedDocs.map((doc) => doc.rank)).toEqual([
+        20, 40, 60,
+      ]);
+
+      await filteredQuery.setWindow(2, 3);
+      expect(filteredQuery.orderedDocs.map((doc) => doc.rank)).toEqual([
+        60, 70, 80,
+      ]);
+    });
+  });
+});
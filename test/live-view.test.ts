@@ -0,0 +1,196 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for LiveView.
+ */
+
+// External dependencies.
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+// Internal dependencies.
+import { HeartDB } from "../src/heartdb";
+import { LiveQuery } from "../src/live-query";
+import { LiveView, difference, intersection, union } from "../src/live-view";
+import { Document } from "../src/types";
+
+// Test dependencies.
+import { TestDbFactory } from "./test-db-factory";
+
+interface Task extends Document {
+  type: "task";
+  title: string;
+  dueAt: number;
+  flagged: boolean;
+}
+
+describe("LiveView", () => {
+  const testDbFactory = new TestDbFactory<Task>({
+    dbNamePrefix: "TEST_LiveView",
+    initialDocs: [
+      { _id: "TASK_1", type: "task", title: "One", dueAt: 10, flagged: true },
+      { _id: "TASK_2", type: "task", title: "Two", dueAt: 20, flagged: false },
+      { _id: "TASK_3", type: "task", title: "Three", dueAt: 30, flagged: true },
+    ],
+  });
+
+  let heartDb: HeartDB<Task>;
+  let allTasks: LiveQuery<Task>;
+  let flaggedTasks: LiveQuery<Task>;
+
+  beforeEach(async () => {
+    heartDb = await testDbFactory.createDb();
+    allTasks = new LiveQuery(heartDb);
+    await allTasks.setQuery({ selector: { type: "task" } });
+    flaggedTasks = new LiveQuery(heartDb);
+    await flaggedTasks.setQuery({ selector: { type: "task", flagged: true } });
+  });
+
+  afterEach(() => {
+    allTasks.close();
+    flaggedTasks.close();
+    heartDb.close();
+  });
+
+  /**
+   * Record the events dispatched by a view.
+   * @param liveView View to follow.
+   * @returns List of events, which grows as they're dispatched.
+   */
+  function recordEvents<DocType extends Document>(liveView: LiveView<DocType>) {
+    const events: string[] = [];
+    liveView.onEnter(({ detail }) => {
+      events.push(`enter ${Object.keys(detail).sort()}`);
+    });
+    liveView.onUpdate(({ detail }) => {
+      events.push(`update ${Object.keys(detail).sort()}`);
+    });
+    liveView.onExit(({ detail }) => {
+      events.push(`exit ${Object.keys(detail).sort()}`);
+    });
+    liveView.onAfterChange(({ detail }) => {
+      events.push(`afterchange ${Object.keys(detail).sort()}`);
+    });
+    return events;
+  }
+
+  /**
+   * Update a task's fields.
+   * @param id Id of the task.
+   * @param fields Fields to change.
+   */
+  async function updateTask(id: string, fields: Partial<Task>) {
+    await heartDb.update(id, (task) => task && { ...task, ...fields });
+  }
+
+  it("should filter documents incrementally", async () => {
+    const dueSoon = allTasks.filter(({ dueAt }) => dueAt < 25);
+    expect(Object.keys(dueSoon.docs).sort()).toEqual(["TASK_1", "TASK_2"]);
+    const events = recordEvents(dueSoon);
+
+    await updateTask("TASK_3", { dueAt: 5 });
+    await updateTask("TASK_1", { title: "One!" });
+    await updateTask("TASK_2", { dueAt: 50 });
+    await updateTask("TASK_2", { title: "Two!" });
+
+    expect(events).toEqual([
+      "enter TASK_3",
+      "afterchange TASK_1,TASK_2,TASK_3",
+      "update TASK_1",
+      "afterchange TASK_1,TASK_2,TASK_3",
+      "exit TASK_2",
+      "afterchange TASK_1,TASK_3",
+    ]);
+    expect(dueSoon.docs["TASK_1"].title).toBe("One!");
+  });
+
+  it("should map documents", async () => {
+    const titles = allTasks.map((task) => ({
+      _id: task._id,
+      _rev: task._rev,
+      title: task.title.toUpperCase(),
+    }));
+    expect(titles.docs["TASK_1"].title).toBe("ONE");
+
+    await updateTask("TASK_1", { title: "First" });
+    expect(titles.docs["TASK_1"].title).toBe("FIRST");
+  });
+
+  it("should compose views", async () => {
+    const flaggedTitles = allTasks
+      .filter(({ flagged }) => flagged)
+      .filter(({ dueAt }) => dueAt > 15)
+      .map(({ _id, _rev, title }) => ({ _id, _rev, title }));
+    expect(Object.keys(flaggedTitles.docs)).toEqual(["TASK_3"]);
+
+    await updateTask("TASK_2", { flagged: true });
+    expect(Object.keys(flaggedTitles.docs).sort()).toEqual([
+      "TASK_2",
+      "TASK_3",
+    ]);
+  });
+
+  it("should combine LiveQueries", async () => {
+    const dueSoon = allTasks.filter(({ dueAt }) => dueAt < 25);
+    const either = union(dueSoon, flaggedTasks);
+    const both = intersection(dueSoon, flaggedTasks);
+    const onlyDueSoon = difference(dueSoon, flaggedTasks);
+
+    expect(Object.keys(either.docs).sort()).toEqual([
+      "TASK_1",
+      "TASK_2",
+      "TASK_3",
+    ]);
+    expect(Object.keys(both.docs)).toEqual(["TASK_1"]);
+    expect(Object.keys(onlyDueSoon.docs)).toEqual(["TASK_2"]);
+
+    const events = recordEvents(onlyDueSoon);
+    await updateTask("TASK_2", { flagged: true });
+    await heartDb.remove("TASK_3");
+
+    expect(Object.keys(both.docs).sort()).toEqual(["TASK_1", "TASK_2"]);
+    expect(Object.keys(either.docs).sort()).toEqual(["TASK_1", "TASK_2"]);
+    expect(onlyDueSoon.docs).toEqual({});
+    // The task updates in the first source before entering the second.
+    expect(events).toEqual([
+      "update TASK_2",
+      "afterchange TASK_2",
+      "exit TASK_2",
+      "afterchange ",
+    ]);
+  });
+
+  it("should not update docs derived unchanged", async () => {
+    const dueSoon = allTasks.filter(({ dueAt }) => dueAt < 25);
+    const either = union(dueSoon, flaggedTasks);
+    const events = recordEvents(either);
+
+    // The task exits the second source, but is still taken from the first.
+    await updateTask("TASK_1", { flagged: false });
+    expect(events).toEqual([
+      "update TASK_1",
+      "afterchange TASK_1,TASK_2,TASK_3",
+    ]);
+  });
+
+  it("should close views along with their sources", () => {
+    const dueSoon = allTasks.filter(({ dueAt }) => dueAt < 25);
+    const titles = dueSoon.map(({ _id, _rev, title }) => ({
+      _id,
+      _rev,
+      title,
+    }));
+    const either = union(dueSoon, flaggedTasks);
+
+    allTasks.close();
+    expect(dueSoon.closed).toBe(true);
+    expect(titles.closed).toBe(true);
+    expect(either.closed).toBe(true);
+
+    // Closing a view leaves its sources open.
+    const flagged = flaggedTasks.filter(() => true);
+    flagged.close();
+    expect(flaggedTasks.closed).toBe(false);
+  });
+});
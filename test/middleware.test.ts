@@ -0,0 +1,251 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for HeartDB middleware.
+ */
+
+// External dependencies.
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Internal dependencies.
+import { ValidationError } from "../src/errors";
+import { HeartDB } from "../src/heartdb";
+import { LiveDoc } from "../src/live-doc";
+import { LiveQuery } from "../src/live-query";
+import { Document, Existing, Middleware } from "../src/types";
+
+// Test dependencies.
+import { TestDbFactory } from "./test-db-factory";
+
+interface Note extends Document {
+  text?: string;
+  createdAt?: number;
+  updatedAt?: number;
+  authorId?: string;
+  preview?: string;
+}
+
+/**
+ * Middleware stamping creation and update times, as an app might.
+ */
+function createTimestamps(now: () => number): Middleware<Note> {
+  return {
+    beforeWrite: (doc) => {
+      const time = now();
+      return { ...doc, createdAt: doc.createdAt ?? time, updatedAt: time };
+    },
+  };
+}
+
+describe("HeartDB middleware", () => {
+  const testDbFactory = new TestDbFactory<Note>({
+    dbNamePrefix: "TEST_HeartDB_middleware",
+  });
+
+  let heartDb: HeartDB<Note>;
+  let time: number;
+
+  beforeEach(async () => {
+    heartDb = await testDbFactory.createDb();
+    time = 1000;
+    heartDb.use(createTimestamps(() => time++));
+  });
+
+  afterEach(() => {
+    heartDb.close();
+  });
+
+  it("should transform docs written by put(), post() and update()", async () => {
+    const putChange = await heartDb.put({ _id: "NOTE_1", text: "one" });
+    expect(putChange.doc).toMatchObject({ createdAt: 1000, updatedAt: 1000 });
+
+    const postChange = await heartDb.post({ text: "two" });
+    expect(postChange.doc).toMatchObject({ createdAt: 1001, updatedAt: 1001 });
+
+    const updateChange = await heartDb.update(
+      "NOTE_1",
+      (doc) => doc && { ...doc, text: "uno" },
+    );
+    expect(updateChange?.doc).toMatchObject({
+      text: "uno",
+      createdAt: 1000,
+      updatedAt: 1002,
+    });
+  });
+
+  it("should transform docs written in bulk and removed", async () => {
+    const results = await heartDb.bulkDocs([
+      { _id: "NOTE_1", text: "one" },
+      { _id: "NOTE_2", text: "two" },
+    ]);
+    expect(results.map((result) => result.ok && result.change.doc)).toEqual([
+      expect.objectContaining({ updatedAt: 1000 }),
+      expect.objectContaining({ updatedAt: 1001 }),
+    ]);
+
+    const operations: string[] = [];
+    heartDb.use({
+      beforeWrite: (doc, { operation }) => {
+        operations.push(`${doc._id} ${operation}`);
+      },
+    });
+
+    await heartDb.remove("NOTE_1");
+    await heartDb.removeWhere({ _id: "NOTE_2" });
+
+    expect(operations).toEqual(["NOTE_1 remove", "NOTE_2 remove"]);
+  });
+
+  it("should compose async hooks in order", async () => {
+    const calls: string[] = [];
+    heartDb.use({
+      beforeWrite: async (doc) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        calls.push(`first ${doc.updatedAt}`);
+        return { ...doc, authorId: "AUTHOR" };
+      },
+      afterWrite: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        calls.push("first after");
+      },
+    });
+    heartDb.use({
+      beforeWrite: (doc) => {
+        calls.push(`second ${doc.authorId}`);
+      },
+      afterWrite: (change) => {
+        calls.push(`second after ${change.doc.authorId}`);
+      },
+    });
+
+    const change = await heartDb.put({ _id: "NOTE_1", text: "one" });
+    calls.push("resolved");
+
+    expect(change.doc.authorId).toBe("AUTHOR");
+    expect(calls).toEqual([
+      "first 1000",
+      "second AUTHOR",
+      "first after",
+      "second after AUTHOR",
+      "resolved",
+    ]);
+  });
+
+  it("should reject writes when beforeWrite throws", async () => {
+    heartDb.use({
+      beforeWrite: (doc) => {
+        if (!doc.text) {
+          throw new ValidationError("Notes must have text.");
+        }
+      },
+    });
+
+    await expect(heartDb.put({ _id: "EMPTY" })).rejects.toThrow(
+      "Notes must have text.",
+    );
+    expect(await heartDb.get("EMPTY")).toBeUndefined();
+
+    const results = await heartDb.bulkDocs([
+      { _id: "EMPTY" },
+      { _id: "NOTE_1", text: "one" },
+    ]);
+    expect(results.map(({ ok }) => ok)).toEqual([false, true]);
+    expect(!results[0].ok && results[0].error).toBeInstanceOf(ValidationError);
+  });
+
+  it("should dispatch afterWrite errors without rejecting", async () => {
+    // Node doesn't provide ErrorEvent, which browsers do.
+    if (typeof globalThis.ErrorEvent === "undefined") {
+      vi.stubGlobal(
+        "ErrorEvent",
+        class extends Event {
+          readonly error: unknown;
+          constructor(type: string, init?: ErrorEventInit) {
+            super(type);
+            this.error = init?.error;
+          }
+        },
+      );
+    }
+
+    const error = new Error("afterWrite failed");
+    heartDb.use({
+      afterWrite: () => {
+        throw error;
+      },
+    });
+    const errors: unknown[] = [];
+    heartDb.addEventListener("error", (errorEvent) => {
+      errors.push((errorEvent as ErrorEvent).error);
+    });
+
+    const change = await heartDb.put({ _id: "NOTE_1", text: "one" });
+
+    expect(change.doc.text).toBe("one");
+    expect(errors).toEqual([error]);
+
+    vi.unstubAllGlobals();
+  });
+
+  it("should stop calling removed middleware", async () => {
+    let count = 0;
+    const remove = heartDb.use({ afterWrite: () => void count++ });
+
+    await heartDb.put({ _id: "NOTE_1", text: "one" });
+    remove();
+    await heartDb.put({ _id: "NOTE_2", text: "two" });
+
+    expect(count).toBe(1);
+  });
+
+  it("should transform docs read by get(), LiveDoc and LiveQuery", async () => {
+    await heartDb.put({ _id: "NOTE_1", text: "a long note" });
+    heartDb.use({
+      onRead: (doc: Note & Existing) => ({
+        ...doc,
+        preview: doc.text?.slice(0, 6),
+      }),
+    });
+
+    expect((await heartDb.get("NOTE_1"))?.preview).toBe("a long");
+
+    const liveDoc = new LiveDoc(heartDb, "NOTE_1");
+    await new Promise((resolve) => liveDoc.onSet(resolve));
+    expect(liveDoc.doc?.preview).toBe("a long");
+
+    const liveQuery = new LiveQuery(heartDb);
+    await liveQuery.setQuery({ selector: { text: { $gt: "" } } });
+    expect(liveQuery.docs["NOTE_1"].preview).toBe("a long");
+
+    await heartDb.put({ _id: "NOTE_2", text: "another" });
+    expect(liveQuery.docs["NOTE_2"].preview).toBe("anothe");
+
+    // Stored docs are unaffected.
+    expect((await heartDb.pouchDb.get("NOTE_1")).preview).toBeUndefined();
+
+    liveDoc.close();
+    liveQuery.close();
+  });
+
+  it("should not store fields added on read when updating", async () => {
+    await heartDb.put({ _id: "NOTE_1", text: "a long note" });
+    heartDb.use({
+      onRead: (doc: Note & Existing) => ({
+        ...doc,
+        preview: doc.text?.slice(0, 6),
+      }),
+    });
+
+    await heartDb.update("NOTE_1", (doc) => {
+      expect(doc?.preview).toBeUndefined();
+      return doc && { ...doc, text: "edited" };
+    });
+
+    const storedDoc = await heartDb.pouchDb.get("NOTE_1");
+    expect(storedDoc.text).toBe("edited");
+    expect(storedDoc.preview).toBeUndefined();
+    expect((await heartDb.get("NOTE_1"))?.preview).toBe("edited");
+  });
+});
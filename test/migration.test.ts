@@ -0,0 +1,216 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for versioned document migrations.
+ */
+
+// External dependencies.
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+// Internal dependencies.
+import { MigrationProgressEvent } from "../src/events";
+import { HeartDB } from "../src/heartdb";
+import { LiveDoc } from "../src/live-doc";
+import { LiveQuery } from "../src/live-query";
+import { Document, MigrationFunction } from "../src/types";
+
+// Test dependencies.
+import { TestDbFactory } from "./test-db-factory";
+
+interface Task extends Document {
+  type: "task";
+  schemaVersion?: number;
+  title?: string;
+  name?: string;
+  done?: boolean;
+  status?: "todo" | "done";
+}
+
+/**
+ * Version 1 renamed `name` to `title`.
+ */
+const RENAME_NAME: MigrationFunction<Task> = (doc) => {
+  const { name, ...rest } = doc;
+  return { ...rest, title: name };
+};
+
+/**
+ * Version 2 replaced the `done` flag with a `status`.
+ */
+const DONE_TO_STATUS: MigrationFunction<Task> = (doc) => {
+  const { done, ...rest } = doc;
+  return { ...rest, status: done ? "done" : "todo" };
+};
+
+describe("HeartDB migrations", () => {
+  const testDbFactory = new TestDbFactory<Task>({
+    dbNamePrefix: "TEST_HeartDB_migrations",
+    heartDbOptions: {
+      migrations: { 2: DONE_TO_STATUS, 1: RENAME_NAME },
+    },
+  });
+
+  let heartDb: HeartDB<Task>;
+
+  beforeEach(async () => {
+    heartDb = await testDbFactory.createDb();
+
+    // Write docs at older versions directly, as an older app would have.
+    await heartDb.pouchDb.bulkDocs([
+      { _id: "TASK_0", type: "task", name: "Zero", done: true },
+      { _id: "TASK_1", type: "task", schemaVersion: 1, title: "One" },
+      {
+        _id: "TASK_2",
+        type: "task",
+        schemaVersion: 2,
+        title: "Two",
+        status: "todo",
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    heartDb.close();
+  });
+
+  it("should report the latest schema version", () => {
+    expect(heartDb.schemaVersion).toBe(2);
+  });
+
+  it("should migrate outdated docs on get()", async () => {
+    const task0 = await heartDb.get("TASK_0");
+    expect(task0).toEqual({
+      _id: "TASK_0",
+      _rev: task0?._rev,
+      type: "task",
+      schemaVersion: 2,
+      title: "Zero",
+      status: "done",
+    });
+
+    const task1 = await heartDb.get("TASK_1");
+    expect(task1?.schemaVersion).toBe(2);
+    expect(task1?.title).toBe("One");
+    expect(task1?.status).toBe("todo");
+
+    // Reads don't write.
+    const storedDoc = await heartDb.pouchDb.get("TASK_0");
+    expect(storedDoc.schemaVersion).toBeUndefined();
+  });
+
+  it("should return up to date docs unchanged", async () => {
+    const doc = { _id: "ID", _rev: "1-a", type: "task", schemaVersion: 2 };
+    expect(heartDb.migrate(doc as Task)).toBe(doc);
+  });
+
+  it("should migrate docs followed by LiveQuery", async () => {
+    const liveQuery = new LiveQuery(heartDb);
+    await liveQuery.setQuery({ selector: { type: "task" } });
+
+    expect(liveQuery.orderedDocs.map(({ title }) => title)).toEqual([
+      "Zero",
+      "One",
+      "Two",
+    ]);
+    expect(liveQuery.docs["TASK_0"].status).toBe("done");
+
+    const changed = new Promise((resolve) => liveQuery.onAfterChange(resolve));
+    const { _rev } = await heartDb.pouchDb.get("TASK_1");
+    await heartDb.pouchDb.put({
+      _id: "TASK_1",
+      _rev,
+      type: "task",
+      schemaVersion: 1,
+      title: "Uno",
+      done: true,
+    });
+    await changed;
+
+    expect(liveQuery.docs["TASK_1"].title).toBe("Uno");
+    expect(liveQuery.docs["TASK_1"].status).toBe("done");
+
+    liveQuery.close();
+  });
+
+  it("should migrate docs followed by LiveDoc", async () => {
+    const liveDoc = new LiveDoc(heartDb, "TASK_0");
+    await new Promise((resolve) => liveDoc.onSet(resolve));
+    expect(liveDoc.doc?.title).toBe("Zero");
+
+    await heartDb.update("TASK_0", (doc) => doc && { ...doc, title: "Nil" });
+
+    expect(liveDoc.doc?.title).toBe("Nil");
+    expect(liveDoc.doc?.status).toBe("done");
+
+    liveDoc.close();
+  });
+
+  it("should stamp written docs with the latest version", async () => {
+    const change = await heartDb.put({
+      _id: "TASK_NEW",
+      type: "task",
+      title: "New",
+      status: "todo",
+    });
+    expect(change.doc.schemaVersion).toBe(2);
+
+    // Explicitly outdated docs are migrated before writing.
+    const oldChange = await heartDb.put({
+      _id: "TASK_OLD",
+      type: "task",
+      schemaVersion: 1,
+      title: "Old",
+      done: false,
+    });
+    expect(oldChange.doc.schemaVersion).toBe(2);
+    expect(oldChange.doc.status).toBe("todo");
+    expect(oldChange.doc.done).toBeUndefined();
+  });
+
+  it("should rewrite outdated docs with migrateAll()", async () => {
+    const progressEvents: MigrationProgressEvent[] = [];
+    heartDb.onMigrationProgress((progressEvent) =>
+      progressEvents.push(progressEvent),
+    );
+
+    const progress = await heartDb.migrateAll(2);
+
+    expect(progress).toEqual({ total: 3, checked: 3, migrated: 2, failed: 0 });
+    expect(progressEvents.map(({ detail }) => detail)).toEqual([
+      { total: 3, checked: 2, migrated: 2, failed: 0 },
+      { total: 3, checked: 3, migrated: 2, failed: 0 },
+    ]);
+
+    const storedDocs = await heartDb.pouchDb.allDocs({ include_docs: true });
+    for (const { doc } of storedDocs.rows) {
+      expect(doc?.schemaVersion).toBe(2);
+    }
+    expect((await heartDb.pouchDb.get("TASK_0")).title).toBe("Zero");
+
+    // Converged data needs no further migration.
+    expect(await heartDb.migrateAll()).toEqual({
+      total: 3,
+      checked: 3,
+      migrated: 0,
+      failed: 0,
+    });
+  });
+
+  it("should apply registered migrations", async () => {
+    const unregister = heartDb.registerMigration(3, (doc) => ({
+      ...doc,
+      title: doc.title?.toUpperCase(),
+    }));
+
+    expect(heartDb.schemaVersion).toBe(3);
+    expect((await heartDb.get("TASK_0"))?.title).toBe("ZERO");
+    expect((await heartDb.get("TASK_2"))?.title).toBe("TWO");
+
+    unregister();
+
+    expect(heartDb.schemaVersion).toBe(2);
+    expect((await heartDb.get("TASK_2"))?.title).toBe("Two");
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for optimistic writes.
+ */
+
+// External dependencies.
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+// Internal dependencies.
+import { ConflictError } from "../src/errors";
+import { HeartDB } from "../src/heartdb";
+import { LiveDoc } from "../src/live-doc";
+import { LiveQuery } from "../src/live-query";
+import { Document, Existing } from "../src/types";
+
+// Test dependencies.
+import { TestDbFactory } from "./test-db-factory";
+
+interface Task extends Document {
+  type: "task";
+  status: "open" | "closed";
+}
+
+describe("HeartDB optimistic writes", () => {
+  const testDbFactory = new TestDbFactory<Task>({
+    dbNamePrefix: "TEST_HeartDB_optimistic",
+    heartDbOptions: { optimistic: true },
+  });
+
+  let heartDb: HeartDB<Task>;
+  let liveQuery: LiveQuery<Task>;
+  let events: string[];
+
+  beforeEach(async () => {
+    heartDb = await testDbFactory.createDb();
+    await heartDb.put({ _id: "TASK", type: "task", status: "open" });
+
+    liveQuery = new LiveQuery(heartDb);
+    await liveQuery.setQuery({ selector: { type: "task", status: "open" } });
+
+    events = [];
+    liveQuery.onEnter(({ detail }) => {
+      for (const doc of Object.values(detail)) {
+        events.push(`enter ${doc._id} ${describeRev(doc)}`);
+      }
+    });
+    liveQuery.onUpdate(({ detail }) => {
+      for (const doc of Object.values(detail)) {
+        events.push(`update ${doc._id} ${describeRev(doc)}`);
+      }
+    });
+    liveQuery.onExit(({ detail }) => {
+      for (const doc of Object.values(detail)) {
+        events.push(`exit ${doc._id}`);
+      }
+    });
+  });
+
+  afterEach(() => {
+    liveQuery.close();
+    heartDb.close();
+  });
+
+  /**
+   * Describe whether a document is pending, for event logs.
+   * @param doc Document to describe.
+   * @returns Either "pending" or "settled".
+   */
+  function describeRev(doc: Task & Existing): string {
+    return heartDb.isPending(doc) ? "pending" : "settled";
+  }
+
+  /**
+   * Wait until the LiveQuery has dispatched a number of events.
+   * @param count Number of events to wait for.
+   */
+  async function waitForEvents(count: number) {
+    while (events.length < count) {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+  }
+
+  it("should show a pending overlay before the write settles", async () => {
+    const entered = new Promise((resolve) => liveQuery.onEnter(resolve));
+    let settled = false;
+    const write = heartDb
+      .put({ _id: "NEW", type: "task", status: "open" })
+      .then((change) => {
+        settled = true;
+        return change;
+      });
+
+    await entered;
+    expect(settled).toBe(false);
+    expect(events).toEqual(["enter NEW pending"]);
+    expect(heartDb.isPending(liveQuery.docs["NEW"])).toBe(true);
+
+    const change = await write;
+    expect(events).toEqual(["enter NEW pending", "update NEW settled"]);
+    expect(liveQuery.docs["NEW"]._rev).toBe(change.doc._rev);
+  });
+
+  it("should show overlays exiting the result set", async () => {
+    const task = (await heartDb.get("TASK"))!;
+    const write = heartDb.put({ ...task, status: "closed" });
+
+    await waitForEvents(1);
+    expect(events).toEqual(["exit TASK"]);
+
+    await write;
+    expect(events).toEqual(["exit TASK"]);
+    expect(liveQuery.docs).toEqual({});
+  });
+
+  it("should roll back an overlay when the write fails", async () => {
+    const task = (await heartDb.get("TASK"))!;
+    await heartDb.put({ ...task, status: "open" });
+    events.length = 0;
+
+    // Writing over a stale revision conflicts.
+    await expect(heartDb.put({ ...task, status: "closed" })).rejects.toThrow(
+      ConflictError,
+    );
+    expect(events).toEqual(["exit TASK", "enter TASK settled"]);
+    expect(liveQuery.docs["TASK"]._rev).toBe((await heartDb.get("TASK"))?._rev);
+  });
+
+  it("should roll back an overlay of a new document as an exit", async () => {
+    await expect(
+      heartDb.put({ _id: "NEW", _rev: "1-abc", type: "task", status: "open" }),
+    ).rejects.toThrow();
+    expect(events).toEqual(["enter NEW pending", "exit NEW"]);
+  });
+
+  it("should put over a pending overlay once it settles", async () => {
+    const firstWrite = heartDb.put({
+      _id: "NEW",
+      type: "task",
+      status: "open",
+    });
+    await waitForEvents(1);
+
+    const change = await heartDb.put({ ...liveQuery.docs["NEW"] });
+    expect((await firstWrite).doc._rev).toMatch(/^1-/);
+    expect(change.doc._rev).toMatch(/^2-/);
+    expect(liveQuery.docs["NEW"]._rev).toBe(change.doc._rev);
+  });
+
+  it("should flag pending documents in LiveDoc", async () => {
+    const liveDoc = new LiveDoc(heartDb, "TASK");
+    await new Promise((resolve) => liveDoc.onSet(resolve));
+    expect(liveDoc.pending).toBe(false);
+
+    const pendingStates: boolean[] = [];
+    liveDoc.onSet(() => {
+      // The set event is dispatched before the doc is assigned.
+      queueMicrotask(() => pendingStates.push(liveDoc.pending));
+    });
+
+    await heartDb.update(
+      "TASK",
+      (task) => task && { ...task, status: "closed" },
+    );
+    expect(pendingStates).toEqual([true, false]);
+    expect(liveDoc.doc?.status).toBe("closed");
+
+    liveDoc.close();
+  });
+
+  it("should not dispatch pending changes unless optimistic", async () => {
+    const pessimisticDb = await new TestDbFactory<Task>({
+      dbNamePrefix: "TEST_HeartDB_pessimistic",
+    }).createDb();
+    let pendingCount = 0;
+    pessimisticDb.onPendingChange(() => pendingCount++);
+
+    await pessimisticDb.put({ _id: "TASK", type: "task", status: "open" });
+    expect(pendingCount).toBe(0);
+
+    pessimisticDb.close();
+  });
+});
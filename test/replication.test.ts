@@ -0,0 +1,151 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for Replication.
+ */
+
+// External dependencies.
+import PouchDB from "pouchdb";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+// Internal dependencies.
+import {
+  ReplicationCompleteEvent,
+  ReplicationPausedEvent,
+} from "../src/events";
+import { HeartDB } from "../src/heartdb";
+import { LiveQuery } from "../src/live-query";
+import { Replication } from "../src/replication";
+import { ReplicationProgress } from "../src/types";
+
+// Test dependencies.
+import { TestDbFactory } from "./test-db-factory";
+import { TEST_DOCS_0100, TestDoc } from "./test-docs";
+
+describe("Replication", () => {
+  const testDbFactory = new TestDbFactory<TestDoc>({
+    dbNamePrefix: "TEST_Replication",
+  });
+
+  let heartDb: HeartDB<TestDoc>;
+  let remote: PouchDB.Database<TestDoc>;
+  let remoteCount = 0;
+
+  beforeEach(async () => {
+    heartDb = await testDbFactory.createDb();
+    remoteCount++;
+    remote = new PouchDB<TestDoc>(`TEST_Replication_remote_${remoteCount}`, {
+      adapter: "memory",
+    });
+  });
+
+  afterEach(async () => {
+    heartDb.close();
+    await remote.destroy();
+  });
+
+  /**
+   * Wait for replication to pause, having caught up.
+   * @param replication Replication to wait on.
+   * @returns Promise that resolves with the paused event.
+   */
+  function nextPaused(replication: Replication<TestDoc>) {
+    return new Promise<ReplicationPausedEvent>((resolve) => {
+      const disconnect = replication.onPaused((pausedEvent) => {
+        disconnect();
+        resolve(pausedEvent);
+      });
+    });
+  }
+
+  /**
+   * Wait for replication to pause with progress satisfying a condition.
+   * @param replication Replication to wait on.
+   * @param condition Function returning whether the progress is as expected.
+   */
+  async function waitForProgress(
+    replication: Replication<TestDoc>,
+    condition: (progress: ReplicationProgress) => boolean,
+  ) {
+    while (!condition(replication.progress)) {
+      await nextPaused(replication);
+    }
+  }
+
+  it("should be created by HeartDB::sync()", () => {
+    const replication = heartDb.sync(remote);
+    expect(replication).toBeInstanceOf(Replication);
+    expect(replication.remote).toBe(remote);
+    replication.close();
+  });
+
+  it("should emit pulled docs as changes followed by LiveQuery", async () => {
+    await remote.bulkDocs(TEST_DOCS_0100.slice(0, 10));
+
+    const liveQuery = new LiveQuery(heartDb);
+    await liveQuery.setQuery({ selector: { testField: { $gt: "" } } });
+    expect(liveQuery.orderedDocs.length).toBe(0);
+
+    const origins = new Set<string>();
+    heartDb.onChange((changeEvent) => origins.add(changeEvent.origin));
+
+    const replication = heartDb.sync(remote);
+    await waitForProgress(replication, ({ pulled }) => pulled === 10);
+
+    expect(origins).toEqual(new Set(["local"]));
+
+    while (liveQuery.orderedDocs.length < 10) {
+      await new Promise<void>((resolve) => {
+        const disconnect = liveQuery.onAfterChange(() => {
+          disconnect();
+          resolve();
+        });
+      });
+    }
+    expect(liveQuery.orderedDocs.length).toBe(10);
+
+    replication.close();
+  });
+
+  it("should push local docs and count them", async () => {
+    const replication = heartDb.sync(remote);
+    const pausedEvents: ReplicationPausedEvent[] = [];
+    replication.onPaused((pausedEvent) => pausedEvents.push(pausedEvent));
+
+    await heartDb.put({ _id: "TEST_ID", testField: "test value" });
+    await waitForProgress(replication, ({ pushed }) => pushed === 1);
+
+    expect(replication.progress).toEqual({ pulled: 0, pushed: 1, failed: 0 });
+    const lastPausedEvent = pausedEvents[pausedEvents.length - 1];
+    expect(lastPausedEvent.detail).toEqual(replication.progress);
+    expect(lastPausedEvent.error).toBeUndefined();
+    expect((await remote.get("TEST_ID")).testField).toBe("test value");
+
+    replication.close();
+  });
+
+  it("should emit complete for a one-off sync", async () => {
+    await remote.bulkDocs(TEST_DOCS_0100.slice(0, 3));
+    await heartDb.put({ _id: "TEST_ID", testField: "test value" });
+
+    const replication = heartDb.sync(remote, { live: false, retry: false });
+    const completeEvent = await new Promise<ReplicationCompleteEvent>(
+      (resolve) => replication.onComplete(resolve),
+    );
+
+    expect(completeEvent.detail).toEqual({ pulled: 3, pushed: 1, failed: 0 });
+
+    replication.close();
+  });
+
+  it("should close when the HeartDB closes", async () => {
+    const replication = heartDb.sync(remote);
+    await nextPaused(replication);
+
+    heartDb.close();
+
+    expect(replication.closed).toBe(true);
+  });
+});
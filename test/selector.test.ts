@@ -0,0 +1,223 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for in-memory selector matching.
+ */
+
+// External dependencies.
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+// Internal dependencies.
+import { HeartDB } from "../src/heartdb";
+import { LiveQuery } from "../src/live-query";
+import { isSupportedSelector, matchesSelector } from "../src/selector";
+import { Document } from "../src/types";
+
+// Test dependencies.
+import { TestDbFactory } from "./test-db-factory";
+
+/**
+ * Test document with fields of various types to select on.
+ */
+
+interface SelectorTestDoc extends Document {
+  name?: string | null;
+  rank?: number;
+  active?: boolean;
+  tags?: string[];
+  scores?: number[];
+  address?: { city: string; zip?: number };
+  items?: { sku: string; qty: number }[];
+  mixed?: unknown;
+}
+
+const INITIAL_DOCS: (SelectorTestDoc & PouchDB.Core.IdMeta)[] = [
+  {
+    _id: "doc-a",
+    name: "alpha",
+    rank: 1,
+    active: true,
+    tags: ["red", "blue"],
+    scores: [1, 5, 9],
+    address: { city: "Austin", zip: 78701 },
+    items: [{ sku: "x", qty: 1 }],
+  },
+  {
+    _id: "doc-b",
+    name: "bravo",
+    rank: 2,
+    active: false,
+    tags: ["blue"],
+    scores: [2, 4],
+    address: { city: "Boston" },
+    items: [
+      { sku: "x", qty: 3 },
+      { sku: "y", qty: 5 },
+    ],
+  },
+  {
+    _id: "doc-c",
+    name: "charlie",
+    rank: 3,
+    tags: [],
+    scores: [],
+    mixed: "3",
+  },
+  { _id: "doc-d", name: null, rank: 4.5, active: true, mixed: 3 },
+  { _id: "doc-e", rank: -7, mixed: [1, 2], tags: ["green", "red"] },
+  { _id: "doc-f", name: "Alpha", mixed: { a: 1 } },
+];
+
+const SELECTORS: PouchDB.Find.Selector[] = [
+  { name: "alpha" },
+  { name: null },
+  { rank: { $gt: 2 } },
+  { rank: { $gte: 2, $lt: 4 } },
+  { rank: { $lte: 1 } },
+  { rank: { $ne: 2 } },
+  { name: { $exists: true } },
+  { name: { $exists: false } },
+  { active: { $eq: true } },
+  { active: { $ne: true } },
+  { name: { $in: ["alpha", "charlie", null] } },
+  { name: { $nin: ["alpha", "charlie"] } },
+  { tags: { $in: ["red"] } },
+  { tags: { $nin: ["red"] } },
+  { tags: { $all: ["red", "blue"] } },
+  { tags: { $size: 0 } },
+  { tags: { $size: 2 } },
+  { rank: { $mod: [2, 0] } },
+  { rank: { $mod: [2, 1] } },
+  { name: { $regex: "^[a-b]" } },
+  { name: { $regex: "pha" } },
+  { mixed: { $type: "string" } },
+  { mixed: { $type: "number" } },
+  { mixed: { $type: "array" } },
+  { mixed: { $type: "object" } },
+  { name: { $type: "null" } },
+  { "address.city": "Boston" },
+  { address: { city: "Austin" } },
+  { scores: { $elemMatch: { $gt: 4 } } },
+  { scores: { $allMatch: { $lt: 5 } } },
+  { items: { $elemMatch: { sku: "y" } } },
+  { items: { $allMatch: { sku: "x" } } },
+  { items: { $elemMatch: { qty: { $gte: 3 }, sku: "x" } } },
+  { $and: [{ rank: { $gt: 1 } }, { active: true }] },
+  { $or: [{ name: "alpha" }, { rank: { $lt: 0 } }] },
+  { $nor: [{ name: "alpha" }, { rank: { $lt: 0 } }] },
+  { $not: { rank: { $gt: 2 } } },
+  { rank: { $gt: 0 }, $or: [{ tags: { $in: ["blue"] } }, { name: null }] },
+  { mixed: { $gt: 2 } },
+  { mixed: { $gte: "3" } },
+];
+
+describe("matchesSelector()", () => {
+  const factory = new TestDbFactory<SelectorTestDoc>({
+    initialDocs: INITIAL_DOCS,
+    dbNamePrefix: "MATCHES_SELECTOR",
+  });
+
+  it.each(SELECTORS.map((selector) => [JSON.stringify(selector), selector]))(
+    "should match the same docs as find() for %s",
+    async (_, selector) => {
+      const heartDb = await factory.createDb();
+      const allDocs = await heartDb.pouchDb.allDocs({ include_docs: true });
+
+      expect(isSupportedSelector(selector)).toBe(true);
+
+      const expectedIds = (await heartDb.pouchDb.find({ selector })).docs
+        .map((doc) => doc._id)
+        .sort();
+      const actualIds = allDocs.rows
+        .filter((row) => matchesSelector(row.doc, selector))
+        .map((row) => row.id)
+        .sort();
+
+      expect(actualIds).toEqual(expectedIds);
+    },
+  );
+});
+
+describe("isSupportedSelector()", () => {
+  it("should reject unknown operators", () => {
+    expect(isSupportedSelector({ name: { $unknown: 1 } })).toBe(false);
+    expect(isSupportedSelector({ $unknown: [{ name: "alpha" }] })).toBe(false);
+    expect(isSupportedSelector({ tags: { $keyMapMatch: { a: 1 } } })).toBe(
+      false,
+    );
+  });
+
+  it("should reject malformed operands", () => {
+    expect(isSupportedSelector({ name: { $in: "alpha" } })).toBe(false);
+    expect(isSupportedSelector({ rank: { $mod: [0, 1] } })).toBe(false);
+    expect(isSupportedSelector({ name: { $regex: /alpha/ } })).toBe(false);
+    const orObject = { $or: { name: "alpha" } } as unknown;
+    expect(isSupportedSelector(orObject as PouchDB.Find.Selector)).toBe(false);
+  });
+});
+
+describe("LiveQuery in-memory matching", () => {
+  const testDbFactory = new TestDbFactory<SelectorTestDoc>({
+    dbNamePrefix: "TEST_LiveQuery_in_memory_matching",
+    initialDocs: INITIAL_DOCS,
+  });
+
+  let heartDb: HeartDB<SelectorTestDoc>;
+  let liveQuery: LiveQuery<SelectorTestDoc>;
+  let findCount: number;
+
+  beforeEach(async () => {
+    heartDb = await testDbFactory.createDb();
+    liveQuery = new LiveQuery(heartDb);
+
+    // Count find() requests made after the initial query.
+    findCount = 0;
+    const find = heartDb.pouchDb.find.bind(heartDb.pouchDb);
+    heartDb.pouchDb.find = (request) => {
+      findCount++;
+      return find(request);
+    };
+  });
+
+  afterEach(() => {
+    heartDb.close();
+  });
+
+  it("should not call find() for changes with a supported selector", async () => {
+    await liveQuery.setQuery({ selector: { rank: { $gt: 2 } } });
+    expect(Object.keys(liveQuery.docs).sort()).toEqual(["doc-c", "doc-d"]);
+    findCount = 0;
+
+    await heartDb.put({ _id: "doc-g", rank: 10 });
+    await heartDb.update("doc-c", (doc) => ({ ...doc, rank: 0 }));
+
+    expect(findCount).toBe(0);
+    expect(Object.keys(liveQuery.docs).sort()).toEqual(["doc-d", "doc-g"]);
+  });
+
+  it("should fall back to find() for projected fields", async () => {
+    await liveQuery.setQuery({
+      selector: { name: { $exists: true } },
+      fields: ["_id", "_rev", "name"],
+    });
+    findCount = 0;
+
+    const afterChange = new Promise<void>((resolve) => {
+      const disconnect = liveQuery.onAfterChange(() => {
+        disconnect();
+        resolve();
+      });
+    });
+    await heartDb.put({ _id: "doc-g", name: "golf", rank: 10 });
+    await afterChange;
+
+    expect(findCount).toBe(1);
+    expect(liveQuery.docs["doc-g"]).toEqual({
+      _id: "doc-g",
+      _rev: expect.any(String),
+      name: "golf",
+    });
+  });
+});
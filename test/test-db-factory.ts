@@ -11,7 +11,7 @@ import PouchDB from "pouchdb";
 import PouchDBPluginAdapterMemory from "pouchdb-adapter-memory";
 
 // Internal dependencies.
-import { HeartDB } from "../src/heartdb";
+import { HeartDB, HeartDBOptions } from "../src/heartdb";
 import { Document } from "../src/types";
 
 // Register memory adapter.
@@ -30,6 +30,11 @@ export interface TestDbFactoryParams<DocType extends Document = Document> {
    * Optional prefix for the database name.
    */
   dbNamePrefix?: string;
+
+  /**
+   * Optional options with which to construct the HeartDB instance.
+   */
+  heartDbOptions?: HeartDBOptions<DocType>;
 }
 
 export class TestDbFactory<DocType extends Document = Document> {
@@ -47,7 +52,7 @@ export class TestDbFactory<DocType extends Document = Document> {
     const dbNamePrefix = this.factoryParams?.dbNamePrefix || "TEST_DB";
     const dbName = `${dbNamePrefix}_${this.dbCount}`;
     const pouchDb = new PouchDB<DocType>(dbName, { adapter: "memory" });
-    const heartDb = new HeartDB(pouchDb);
+    const heartDb = new HeartDB(pouchDb, this.factoryParams?.heartDbOptions);
 
     // Insert initial documents if any.
     for (const doc of this.factoryParams?.initialDocs ?? []) {
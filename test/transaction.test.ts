@@ -0,0 +1,228 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for HeartDB transactions.
+ */
+
+// External dependencies.
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+// Internal dependencies.
+import {
+  ClosedError,
+  ConflictError,
+  TransactionError,
+  ValidationError,
+} from "../src/errors";
+import { ChangesResponseChange } from "../src/events";
+import { HeartDB } from "../src/heartdb";
+import { LiveQuery } from "../src/live-query";
+import { Transaction } from "../src/transaction";
+import { Document } from "../src/types";
+
+// Test dependencies.
+import { TestDbFactory } from "./test-db-factory";
+
+interface Item extends Document {
+  type: "list" | "task";
+  title?: string;
+  taskIds?: string[];
+  listId?: string;
+}
+
+describe("HeartDB transaction", () => {
+  const testDbFactory = new TestDbFactory<Item>({
+    dbNamePrefix: "TEST_HeartDB_transaction",
+    heartDbOptions: {
+      validators: {
+        task: (doc) => !!(doc as Item).title,
+      },
+    },
+  });
+
+  let heartDb: HeartDB<Item>;
+  let changes: ChangesResponseChange<Item>[];
+  let disconnect: () => void;
+
+  beforeEach(async () => {
+    heartDb = await testDbFactory.createDb();
+    await heartDb.bulkDocs([
+      { _id: "LIST_A", type: "list", taskIds: ["TASK"] },
+      { _id: "LIST_B", type: "list", taskIds: [] },
+      { _id: "TASK", type: "task", title: "Write tests", listId: "LIST_A" },
+    ]);
+
+    changes = [];
+    disconnect = heartDb.onChange((changeEvent) => {
+      changes.push(changeEvent.detail);
+    });
+  });
+
+  afterEach(() => {
+    disconnect();
+    heartDb.close();
+  });
+
+  /**
+   * Stage moving the task from list A to list B.
+   * @param tx Transaction in which to stage the move.
+   */
+  async function moveTask(tx: Transaction<Item>) {
+    await tx.update("LIST_A", (list) => list && { ...list, taskIds: [] });
+    await tx.update("LIST_B", (list) => list && { ...list, taskIds: ["TASK"] });
+    await tx.update("TASK", (task) => task && { ...task, listId: "LIST_B" });
+  }
+
+  it("should commit staged writes together", async () => {
+    const result = await heartDb.transaction(async (tx) => {
+      await moveTask(tx);
+      return "moved";
+    });
+
+    expect(result).toBe("moved");
+    expect((await heartDb.get("LIST_A"))?.taskIds).toEqual([]);
+    expect((await heartDb.get("LIST_B"))?.taskIds).toEqual(["TASK"]);
+    expect((await heartDb.get("TASK"))?.listId).toBe("LIST_B");
+    expect(changes.map(({ id }) => id).sort()).toEqual([
+      "LIST_A",
+      "LIST_B",
+      "TASK",
+    ]);
+  });
+
+  it("should read staged writes within the transaction", async () => {
+    await heartDb.transaction(async (tx) => {
+      await tx.put({ _id: "NEW", type: "task", title: "New" });
+      expect((await tx.get("NEW"))?.title).toBe("New");
+      expect(await heartDb.get("NEW")).toBeUndefined();
+
+      await tx.remove("NEW");
+      expect(await tx.get("NEW")).toBeUndefined();
+
+      await tx.remove("TASK");
+      expect(await tx.get("TASK")).toBeUndefined();
+    });
+
+    expect(await heartDb.get("NEW")).toBeUndefined();
+    expect(await heartDb.get("TASK")).toBeUndefined();
+    expect(changes.map(({ id }) => id)).toEqual(["TASK"]);
+  });
+
+  it("should not store fields added on read when updating", async () => {
+    heartDb.use({
+      onRead: (doc) => (doc.type === "list" ? { ...doc, title: "List" } : doc),
+    });
+
+    await heartDb.transaction(async (tx) => {
+      expect((await tx.get("LIST_A"))?.title).toBe("List");
+      await tx.update("LIST_A", (list) => {
+        expect(list?.title).toBeUndefined();
+        return list && { ...list, taskIds: [] };
+      });
+    });
+
+    const storedDoc = await heartDb.pouchDb.get("LIST_A");
+    expect(storedDoc.taskIds).toEqual([]);
+    expect(storedDoc.title).toBeUndefined();
+  });
+
+  it("should write nothing if the callback throws", async () => {
+    let staged: Transaction<Item> | undefined;
+    await expect(
+      heartDb.transaction(async (tx) => {
+        staged = tx;
+        await moveTask(tx);
+        throw new Error("Changed my mind.");
+      }),
+    ).rejects.toThrow("Changed my mind.");
+
+    expect((await heartDb.get("TASK"))?.listId).toBe("LIST_A");
+    expect(changes).toEqual([]);
+    await expect(staged!.get("TASK")).rejects.toThrow(ClosedError);
+  });
+
+  it("should abort before writing if a document is invalid", async () => {
+    await expect(
+      heartDb.transaction(async (tx) => {
+        await moveTask(tx);
+        await tx.put({ _id: "BAD", type: "task", title: "" });
+      }),
+    ).rejects.toThrow(ValidationError);
+
+    expect((await heartDb.get("LIST_A"))?.taskIds).toEqual(["TASK"]);
+    expect(await heartDb.get("BAD")).toBeUndefined();
+    expect(changes).toEqual([]);
+  });
+
+  it("should roll back written documents on conflict", async () => {
+    // Fields added when reading must not be written back on rollback.
+    heartDb.use({
+      onRead: (doc) => (doc.type === "list" ? { ...doc, title: "List" } : doc),
+    });
+
+    const error = await heartDb
+      .transaction(async (tx) => {
+        await moveTask(tx);
+
+        // Change a document elsewhere after the transaction read it.
+        await heartDb.update("TASK", (task) => task && { ...task, title: "!" });
+        changes.length = 0;
+      })
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(TransactionError);
+    expect(error.rolledBack).toBe(true);
+    expect(error.cause).toBeInstanceOf(ConflictError);
+
+    expect((await heartDb.get("LIST_A"))?.taskIds).toEqual(["TASK"]);
+    expect((await heartDb.get("LIST_B"))?.taskIds).toEqual([]);
+    const task = await heartDb.get("TASK");
+    expect(task?.listId).toBe("LIST_A");
+    expect(task?.title).toBe("!");
+
+    // Followers see only the reverted documents, never the partial commit.
+    expect(changes.map(({ id }) => id).sort()).toEqual(["LIST_A", "LIST_B"]);
+    const listB = changes.find(({ id }) => id === "LIST_B");
+    expect(listB?.doc.taskIds).toEqual([]);
+
+    // The stored documents are exactly as they were.
+    const { _rev, ...storedListA } = await heartDb.pouchDb.get("LIST_A");
+    expect(_rev).toMatch(/^3-/);
+    expect(storedListA).toEqual({
+      _id: "LIST_A",
+      type: "list",
+      taskIds: ["TASK"],
+    });
+  });
+
+  it("should update LiveQuery results only once settled", async () => {
+    const liveQuery = new LiveQuery(heartDb);
+    await liveQuery.setQuery({ selector: { type: "list" } });
+
+    const observed: (string[] | undefined)[] = [];
+    liveQuery.onAfterChange((afterChangeEvent) => {
+      observed.push(afterChangeEvent.detail["LIST_B"]?.taskIds);
+    });
+
+    // A rolled back transaction is never observed.
+    await heartDb
+      .transaction(async (tx) => {
+        await moveTask(tx);
+        await heartDb.update("TASK", (task) => task && { ...task, title: "!" });
+      })
+      .catch(() => undefined);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(observed).not.toContainEqual(["TASK"]);
+
+    const afterChange = new Promise<void>((resolve) => {
+      liveQuery.onAfterChange(() => resolve());
+    });
+    await heartDb.transaction(moveTask);
+    await afterChange;
+    expect(liveQuery.docs["LIST_B"].taskIds).toEqual(["TASK"]);
+
+    liveQuery.close();
+  });
+});
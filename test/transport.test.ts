@@ -0,0 +1,147 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for cross-context transports.
+ */
+
+// External dependencies.
+import PouchDB from "pouchdb";
+import PouchDBPluginAdapterMemory from "pouchdb-adapter-memory";
+import { describe, expect, it } from "vitest";
+
+// Internal dependencies.
+import { ChangesResponseChange } from "../src/events";
+import { HeartDB } from "../src/heartdb";
+import {
+  BroadcastChannelTransport,
+  InProcessTransport,
+  MessagePortTransport,
+  NoopTransport,
+} from "../src/transport";
+import { Transport } from "../src/types";
+
+// Test dependencies.
+import { TestDoc } from "./test-docs";
+
+// Register memory adapter.
+PouchDB.plugin(PouchDBPluginAdapterMemory);
+
+/**
+ * Create a pair of HeartDB instances wrapping separate databases, connected by
+ * the provided transports.
+ * @param name Unique name prefix for the databases.
+ * @param transports Transports for the first and second instances.
+ * @returns Pair of HeartDB instances.
+ */
+function createConnectedPair(
+  name: string,
+  transports: [
+    Transport<ChangesResponseChange>,
+    Transport<ChangesResponseChange>,
+  ],
+): [HeartDB<TestDoc>, HeartDB<TestDoc>] {
+  return transports.map(
+    (transport, index) =>
+      new HeartDB(
+        new PouchDB<TestDoc>(`${name}_${index}`, { adapter: "memory" }),
+        { transport },
+      ),
+  ) as [HeartDB<TestDoc>, HeartDB<TestDoc>];
+}
+
+/**
+ * Wait for the next change event on a HeartDB instance.
+ * @param heartDb HeartDB instance to listen on.
+ * @returns Promise that resolves with the change.
+ */
+function nextChange(heartDb: HeartDB<TestDoc>) {
+  return new Promise<ChangesResponseChange<TestDoc>>((resolve) => {
+    const disconnect = heartDb.onChange((changeEvent) => {
+      disconnect();
+      resolve(changeEvent.detail);
+    });
+  });
+}
+
+describe("HeartDB transport", () => {
+  it("should default to a BroadcastChannelTransport", () => {
+    const heartDb = new HeartDB(
+      new PouchDB("TEST_transport_default", { adapter: "memory" }),
+    );
+    expect(heartDb.channel).toBeInstanceOf(BroadcastChannelTransport);
+    heartDb.close();
+  });
+
+  it("should relay changes over an InProcessTransport", async () => {
+    const [source, target] = createConnectedPair("TEST_transport_in_process", [
+      new InProcessTransport("TEST_transport_in_process"),
+      new InProcessTransport("TEST_transport_in_process"),
+    ]);
+
+    const targetChange = nextChange(target);
+    await source.put({ _id: "TEST_ID", testField: "test value" });
+
+    expect((await targetChange).doc.testField).toBe("test value");
+
+    source.close();
+    target.close();
+  });
+
+  it("should relay changes over a MessagePortTransport", async () => {
+    const { port1, port2 } = new MessageChannel();
+    const [source, target] = createConnectedPair("TEST_transport_port", [
+      new MessagePortTransport(port1),
+      new MessagePortTransport(port2),
+    ]);
+
+    const targetChange = nextChange(target);
+    await source.put({ _id: "TEST_ID", testField: "test value" });
+
+    expect((await targetChange).doc.testField).toBe("test value");
+
+    source.close();
+    target.close();
+  });
+
+  it("should not relay changes over a NoopTransport", async () => {
+    const [source, target] = createConnectedPair("TEST_transport_noop", [
+      new NoopTransport(),
+      new NoopTransport(),
+    ]);
+
+    let targetChangeCount = 0;
+    target.onChange(() => targetChangeCount++);
+    await source.put({ _id: "TEST_ID", testField: "test value" });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(targetChangeCount).toBe(0);
+
+    source.close();
+    target.close();
+  });
+});
+
+describe("InProcessTransport", () => {
+  it("should not deliver messages to itself or after closing", async () => {
+    const sender = new InProcessTransport<string>("TEST_in_process_close");
+    const receiver = new InProcessTransport<string>("TEST_in_process_close");
+
+    const senderMessages: string[] = [];
+    const receiverMessages: string[] = [];
+    sender.subscribe((message) => senderMessages.push(message));
+    receiver.subscribe((message) => receiverMessages.push(message));
+
+    sender.postMessage("first");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    receiver.close();
+    sender.postMessage("second");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(senderMessages).toEqual([]);
+    expect(receiverMessages).toEqual(["first"]);
+
+    sender.close();
+  });
+});
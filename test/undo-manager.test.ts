@@ -0,0 +1,197 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for UndoManager.
+ */
+
+// External dependencies.
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+// Internal dependencies.
+import { ConflictError } from "../src/errors";
+import { HeartDB } from "../src/heartdb";
+import { LiveDoc } from "../src/live-doc";
+import { Document, UndoState } from "../src/types";
+import { UndoManager } from "../src/undo-manager";
+
+// Test dependencies.
+import { TestDbFactory } from "./test-db-factory";
+
+interface Task extends Document {
+  title?: string;
+  done?: boolean;
+}
+
+describe("UndoManager", () => {
+  const testDbFactory = new TestDbFactory<Task>({
+    dbNamePrefix: "TEST_UndoManager",
+  });
+
+  let heartDb: HeartDB<Task>;
+  let undoManager: UndoManager<Task>;
+
+  beforeEach(async () => {
+    heartDb = await testDbFactory.createDb();
+    undoManager = heartDb.undoManager();
+  });
+
+  afterEach(() => {
+    heartDb.close();
+  });
+
+  it("should undo and redo an update", async () => {
+    await heartDb.put({ _id: "TASK", title: "Write tests" });
+    await heartDb.update("TASK", (doc) => doc && { ...doc, done: true });
+
+    expect(await undoManager.undo()).toBe(true);
+    const undone = await heartDb.get("TASK");
+    expect(undone?.title).toBe("Write tests");
+    expect(undone?.done).toBeUndefined();
+
+    expect(await undoManager.redo()).toBe(true);
+    expect((await heartDb.get("TASK"))?.done).toBe(true);
+  });
+
+  it("should undo creation and removal", async () => {
+    await heartDb.put({ _id: "TASK", title: "Write tests" });
+    await heartDb.remove("TASK");
+
+    await undoManager.undo();
+    expect((await heartDb.get("TASK"))?.title).toBe("Write tests");
+
+    await undoManager.undo();
+    expect(await heartDb.get("TASK")).toBeUndefined();
+    expect(undoManager.canUndo).toBe(false);
+    expect(await undoManager.undo()).toBe(false);
+
+    await undoManager.redo();
+    await undoManager.redo();
+    expect(await heartDb.get("TASK")).toBeUndefined();
+
+    await undoManager.undo();
+    expect((await heartDb.get("TASK"))?.title).toBe("Write tests");
+  });
+
+  it("should notify followers of undone writes", async () => {
+    await heartDb.put({ _id: "TASK", title: "Write tests" });
+    await heartDb.update("TASK", (doc) => doc && { ...doc, title: "Done" });
+
+    const liveDoc = new LiveDoc(heartDb, "TASK");
+    await new Promise((resolve) => liveDoc.onSet(resolve));
+    expect(liveDoc.doc?.title).toBe("Done");
+
+    await undoManager.undo();
+    expect(liveDoc.doc?.title).toBe("Write tests");
+
+    liveDoc.close();
+  });
+
+  it("should undo and redo a transaction as a group", async () => {
+    await heartDb.put({ _id: "TASK_1", title: "One" });
+
+    await undoManager.transaction(async () => {
+      await heartDb.update("TASK_1", (doc) => doc && { ...doc, done: true });
+      await heartDb.update("TASK_1", (doc) => doc && { ...doc, title: "1" });
+      await heartDb.put({ _id: "TASK_2", title: "Two" });
+    });
+
+    await undoManager.undo();
+    expect(await heartDb.get("TASK_1")).toMatchObject({ title: "One" });
+    expect((await heartDb.get("TASK_1"))?.done).toBeUndefined();
+    expect(await heartDb.get("TASK_2")).toBeUndefined();
+
+    await undoManager.redo();
+    expect(await heartDb.get("TASK_1")).toMatchObject({
+      title: "1",
+      done: true,
+    });
+    expect(await heartDb.get("TASK_2")).toMatchObject({ title: "Two" });
+
+    // The creation of TASK_1 was its own group.
+    await undoManager.undo();
+    await undoManager.undo();
+    expect(await heartDb.get("TASK_1")).toBeUndefined();
+  });
+
+  it("should refuse to overwrite changes made since", async () => {
+    await heartDb.put({ _id: "TASK", title: "Write tests" });
+    await heartDb.update("TASK", (doc) => doc && { ...doc, done: true });
+
+    // Change the document without recording it, as another tab might.
+    const doc = await heartDb.pouchDb.get("TASK");
+    await heartDb.pouchDb.put({ ...doc, title: "Changed elsewhere" });
+
+    await expect(undoManager.undo()).rejects.toThrow(ConflictError);
+    expect((await heartDb.get("TASK"))?.title).toBe("Changed elsewhere");
+    expect(undoManager.canUndo).toBe(true);
+  });
+
+  it("should clear redo after a new write", async () => {
+    await heartDb.put({ _id: "TASK", title: "Write tests" });
+    await undoManager.undo();
+    expect(undoManager.canRedo).toBe(true);
+
+    await heartDb.put({ _id: "OTHER" });
+    expect(undoManager.canRedo).toBe(false);
+  });
+
+  it("should record other writes made during an undo", async () => {
+    await heartDb.put({ _id: "TASK", title: "Write tests" });
+    await heartDb.update("TASK", (doc) => doc && { ...doc, done: true });
+
+    // Write another document while the undo is still writing.
+    const removeMiddleware = heartDb.use({
+      afterWrite: async (change, { operation }) => {
+        if (operation === "bulkDocs" && change.id === "TASK") {
+          await heartDb.put({ _id: "OTHER", title: "Other" });
+        }
+      },
+    });
+    await undoManager.undo();
+    removeMiddleware();
+    expect(await heartDb.get("OTHER")).toBeDefined();
+
+    // The other write is undone next, leaving the task as it was.
+    await undoManager.undo();
+    expect(await heartDb.get("OTHER")).toBeUndefined();
+    expect((await heartDb.get("TASK"))?.done).toBeUndefined();
+  });
+
+  it("should emit state changes", async () => {
+    const states: UndoState[] = [];
+    undoManager.onStateChange((stateChangeEvent) =>
+      states.push(stateChangeEvent.detail),
+    );
+
+    await heartDb.put({ _id: "TASK", title: "Write tests" });
+    await undoManager.undo();
+    await undoManager.redo();
+    undoManager.clear();
+
+    expect(states).toEqual([
+      { canUndo: true, canRedo: false },
+      { canUndo: false, canRedo: true },
+      { canUndo: true, canRedo: false },
+      { canUndo: false, canRedo: false },
+    ]);
+  });
+
+  it("should forget the oldest groups beyond the limit", async () => {
+    const limitedUndoManager = heartDb.undoManager({ limit: 2 });
+    await heartDb.put({ _id: "TASK_1" });
+    await heartDb.put({ _id: "TASK_2" });
+    await heartDb.put({ _id: "TASK_3" });
+
+    expect(await limitedUndoManager.undo()).toBe(true);
+    expect(await limitedUndoManager.undo()).toBe(true);
+    expect(await limitedUndoManager.undo()).toBe(false);
+    expect(await heartDb.get("TASK_1")).toBeDefined();
+  });
+
+  it("should close when the HeartDB closes", () => {
+    heartDb.close();
+    expect(undoManager.closed).toBe(true);
+  });
+});
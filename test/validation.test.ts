@@ -0,0 +1,294 @@
+/**
+ * @license SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * @fileoverview Tests for document validation.
+ */
+
+// External dependencies.
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+// Internal dependencies.
+import { ValidationError } from "../src/errors";
+import { HeartDB } from "../src/heartdb";
+import { LiveDoc } from "../src/live-doc";
+import { LiveQuery } from "../src/live-query";
+import { Document, SchemaDescriptor } from "../src/types";
+import { validateSchema } from "../src/validation";
+
+// Test dependencies.
+import { TestDbFactory } from "./test-db-factory";
+
+interface Person extends Document {
+  type?: string;
+  name?: string;
+  age?: number;
+  tags?: string[];
+}
+
+const PERSON_SCHEMA: SchemaDescriptor = {
+  type: "object",
+  required: ["name"],
+  properties: {
+    type: { const: "person" },
+    name: { type: "string", minLength: 1 },
+    age: { type: "integer", minimum: 0 },
+    tags: { type: "array", items: { type: "string" } },
+  },
+  additionalProperties: false,
+};
+
+describe("validateSchema", () => {
+  it("should accept a valid value", () => {
+    expect(
+      validateSchema(
+        { _id: "ID", _rev: "1-a", type: "person", name: "Ada", tags: ["x"] },
+        PERSON_SCHEMA,
+      ),
+    ).toEqual([]);
+  });
+
+  it("should report issues with dotted paths", () => {
+    expect(
+      validateSchema(
+        { type: "person", age: -1, tags: ["x", 2], extra: true },
+        PERSON_SCHEMA,
+      ),
+    ).toEqual([
+      { path: "name", message: "is required." },
+      { path: "age", message: "must be at least 0." },
+      { path: "tags.1", message: "must be of type string." },
+      { path: "extra", message: "is not an allowed property." },
+    ]);
+  });
+
+  it("should check enum, pattern and lengths", () => {
+    const schema: SchemaDescriptor = {
+      type: ["string", "null"],
+      enum: ["ab", "abc", null],
+      pattern: "^a",
+      maxLength: 2,
+    };
+    expect(validateSchema(null, schema)).toEqual([]);
+    expect(validateSchema("ab", schema)).toEqual([]);
+    expect(validateSchema("abc", schema)).toEqual([
+      { path: "", message: "must be at most 2 characters." },
+    ]);
+    expect(validateSchema("b", schema)).toEqual([
+      { path: "", message: "must be one of the allowed values." },
+      { path: "", message: "must match pattern ^a." },
+    ]);
+    expect(validateSchema(1, schema)).toEqual([
+      { path: "", message: "must be of type string or null." },
+    ]);
+  });
+});
+
+describe("HeartDB validation", () => {
+  const testDbFactory = new TestDbFactory<Person>({
+    dbNamePrefix: "TEST_HeartDB_validation",
+    heartDbOptions: { validators: { person: PERSON_SCHEMA } },
+  });
+
+  let heartDb: HeartDB<Person>;
+
+  beforeEach(async () => {
+    heartDb = await testDbFactory.createDb();
+  });
+
+  afterEach(() => {
+    heartDb.close();
+  });
+
+  it("should write valid documents", async () => {
+    const change = await heartDb.put({
+      _id: "ADA",
+      type: "person",
+      name: "Ada",
+    });
+    expect(change.doc?.name).toBe("Ada");
+  });
+
+  it("should reject invalid documents on put() with issues", async () => {
+    const error = await heartDb
+      .put({ _id: "NOBODY", type: "person", age: 1.5 })
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.issues).toEqual([
+      { path: "name", message: "is required." },
+      { path: "age", message: "must be of type integer." },
+    ]);
+    expect(error.message).toContain("name is required.");
+    expect(await heartDb.get("NOBODY")).toBeUndefined();
+  });
+
+  it("should reject invalid documents on post()", async () => {
+    await expect(heartDb.post({ type: "person", name: "" })).rejects.toThrow(
+      ValidationError,
+    );
+  });
+
+  it("should reject invalid updates without retrying", async () => {
+    await heartDb.put({ _id: "ADA", type: "person", name: "Ada" });
+
+    let callCount = 0;
+    await expect(
+      heartDb.update("ADA", (doc) => {
+        callCount++;
+        return doc && { ...doc, age: -1 };
+      }),
+    ).rejects.toThrow(ValidationError);
+
+    expect(callCount).toBe(1);
+    expect((await heartDb.get("ADA"))?.age).toBeUndefined();
+  });
+
+  it("should not validate documents of other or no type", async () => {
+    await heartDb.put({ _id: "OTHER", type: "other", age: -1 });
+    await heartDb.put({ _id: "UNTYPED", age: -1 });
+    expect(await heartDb.get("OTHER")).toBeDefined();
+    expect(await heartDb.get("UNTYPED")).toBeDefined();
+  });
+
+  it("should allow deleting invalid documents", async () => {
+    await heartDb.pouchDb.put({ _id: "BAD", type: "person" });
+    await heartDb.remove("BAD");
+    expect(await heartDb.get("BAD")).toBeUndefined();
+  });
+
+  it("should report per-document failures from bulkDocs()", async () => {
+    const results = await heartDb.bulkDocs([
+      { _id: "ADA", type: "person", name: "Ada" },
+      { _id: "BAD", type: "person" },
+      { _id: "BOB", type: "person", name: "Bob" },
+    ]);
+
+    expect(results.map(({ ok }) => ok)).toEqual([true, false, true]);
+    const [, failed] = results;
+    expect(failed.id).toBe("BAD");
+    expect(!failed.ok && failed.error).toBeInstanceOf(ValidationError);
+    expect(await heartDb.get("BAD")).toBeUndefined();
+    expect(await heartDb.get("BOB")).toBeDefined();
+  });
+
+  it("should accept predicate validators", async () => {
+    const unregister = heartDb.registerValidator<Person>(
+      "person",
+      (doc) => !!doc.name && doc.name === doc.name.toUpperCase(),
+    );
+
+    await expect(
+      heartDb.put({ _id: "ADA", type: "person", name: "Ada" }),
+    ).rejects.toThrow("failed validation.");
+    await heartDb.put({ _id: "ADA", type: "person", name: "ADA" });
+
+    unregister();
+    await heartDb.put({ _id: "NOBODY", type: "person" });
+    expect(await heartDb.get("NOBODY")).toBeDefined();
+  });
+
+  it("should select validators by the configured type field", async () => {
+    const kindDb = await new TestDbFactory<Document>({
+      dbNamePrefix: "TEST_HeartDB_validation_typeField",
+      heartDbOptions: { typeField: "kind" },
+    }).createDb();
+    kindDb.registerValidator("person", () => [
+      { path: "kind", message: "is not allowed." },
+    ]);
+
+    expect(kindDb.validate({ kind: "person" } as Document)).toEqual([
+      { path: "kind", message: "is not allowed." },
+    ]);
+    expect(kindDb.validate({ type: "person" } as Document)).toEqual([]);
+
+    kindDb.close();
+  });
+});
+
+describe("HeartDB filterInvalidReads", () => {
+  const testDbFactory = new TestDbFactory<Person>({
+    dbNamePrefix: "TEST_HeartDB_filterInvalidReads",
+    heartDbOptions: {
+      validators: { person: PERSON_SCHEMA },
+      filterInvalidReads: true,
+    },
+  });
+
+  let heartDb: HeartDB<Person>;
+
+  beforeEach(async () => {
+    heartDb = await testDbFactory.createDb();
+
+    // Bypass validation, as another version of the app might.
+    await heartDb.pouchDb.bulkDocs([
+      { _id: "ADA", type: "person", name: "Ada" },
+      { _id: "BAD", type: "person", age: 1 },
+    ]);
+  });
+
+  afterEach(() => {
+    heartDb.close();
+  });
+
+  /**
+   * Write a document directly to the database, bypassing validation, and wait
+   * for the HeartDB to emit the change.
+   * @param doc Document to write.
+   */
+  async function writeUnvalidated(doc: Person & PouchDB.Core.IdMeta) {
+    const changed = new Promise<void>((resolve) => {
+      const disconnect = heartDb.onChange((changeEvent) => {
+        if (changeEvent.detail.id === doc._id) {
+          disconnect();
+          resolve();
+        }
+      });
+    });
+    const existing = await heartDb.get(doc._id);
+    await heartDb.pouchDb.put({ ...doc, _rev: existing?._rev });
+    await changed;
+  }
+
+  it("should omit invalid documents from LiveQuery results", async () => {
+    const liveQuery = new LiveQuery(heartDb);
+    await liveQuery.setQuery({ selector: { type: "person" } });
+    expect(Object.keys(liveQuery.docs)).toEqual(["ADA"]);
+
+    await writeUnvalidated({ _id: "ADA", type: "person", name: "" });
+    expect(Object.keys(liveQuery.docs)).toEqual([]);
+
+    await writeUnvalidated({ _id: "BAD", type: "person", name: "Fixed" });
+    expect(Object.keys(liveQuery.docs)).toEqual(["BAD"]);
+
+    liveQuery.close();
+  });
+
+  it("should hide invalid documents from LiveDoc", async () => {
+    const liveDoc = new LiveDoc(heartDb, "ADA");
+    await new Promise((resolve) => liveDoc.onSet(resolve));
+    expect(liveDoc.doc?.name).toBe("Ada");
+
+    await writeUnvalidated({ _id: "ADA", type: "person", age: 1 });
+    expect(liveDoc.doc).toBeUndefined();
+
+    liveDoc.close();
+  });
+
+  it("should not filter reads when the option is off", async () => {
+    const unfilteredDb = await new TestDbFactory<Person>({
+      dbNamePrefix: "TEST_HeartDB_unfilteredReads",
+      heartDbOptions: { validators: { person: PERSON_SCHEMA } },
+    }).createDb();
+    await unfilteredDb.pouchDb.put({ _id: "BAD", type: "person" });
+
+    expect(unfilteredDb.isFilteredFromReads({ type: "person" })).toBe(false);
+    const liveQuery = new LiveQuery(unfilteredDb);
+    await liveQuery.setQuery({ selector: { type: "person" } });
+    expect(Object.keys(liveQuery.docs)).toEqual(["BAD"]);
+
+    liveQuery.close();
+    unfilteredDb.close();
+  });
+});